@@ -1,32 +1,138 @@
 import grpc from "@grpc/grpc-js";
 import protoLoader from "@grpc/proto-loader";
 import googleProtoFiles from "google-proto-files";
+import { createServer } from "node:http";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
 import { promises as fs } from "node:fs";
-import { WebSocket } from "ws";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import { WebSocket, type RawData } from "ws";
 import { z } from "zod";
 
 const SIGNALING_BASE_URL = process.env.SIGNALING_BASE_URL ?? "http://localhost:8787";
 const EMULATOR_GRPC_ENDPOINT = process.env.EMULATOR_GRPC_ENDPOINT ?? "127.0.0.1:8554";
 const EMULATOR_GRPC_INSECURE = (process.env.EMULATOR_GRPC_INSECURE ?? "true").toLowerCase() === "true";
 const EMULATOR_GRPC_BEARER_TOKEN = process.env.EMULATOR_GRPC_BEARER_TOKEN ?? "";
+const EMULATOR_ID = process.env.EMULATOR_ID ?? EMULATOR_GRPC_ENDPOINT;
 const FRAME_WIDTH = Number(process.env.FRAME_WIDTH ?? 0);
 const FRAME_HEIGHT = Number(process.env.FRAME_HEIGHT ?? 0);
 const FRAME_FORMAT = (process.env.FRAME_FORMAT ?? "PNG").toUpperCase();
+// "all" or a comma-separated list of display ids, e.g. "0,1".
+const FRAME_DISPLAYS = (process.env.FRAME_DISPLAYS ?? "all").trim().toLowerCase();
+const DISPLAY_POLL_INTERVAL_MS = Number(process.env.DISPLAY_POLL_INTERVAL_MS ?? 5000);
 const MAX_WS_BUFFERED_BYTES = Number(process.env.MAX_WS_BUFFERED_BYTES ?? 1_500_000);
+const AUDIO_ENABLED = (process.env.AUDIO_ENABLED ?? "true").toLowerCase() === "true";
+const AUDIO_SAMPLE_RATE = Number(process.env.AUDIO_SAMPLE_RATE ?? 44_100);
+const AUDIO_CHANNELS = (process.env.AUDIO_CHANNELS ?? "stereo").toLowerCase() === "mono" ? 1 : 2;
+const FINGERPRINT_TOUCH_MS = Number(process.env.FINGERPRINT_TOUCH_MS ?? 250);
+const GPS_UPDATE_INTERVAL_MS = Number(process.env.GPS_UPDATE_INTERVAL_MS ?? 1000);
 const AUTO_CREATE_SESSION = (process.env.AUTO_CREATE_SESSION ?? "true").toLowerCase() === "true";
 const POINTER_MOVE_MIN_INTERVAL_MS = Number(process.env.POINTER_MOVE_MIN_INTERVAL_MS ?? 16);
 const POINTER_MOVE_MIN_DELTA_PX = Number(process.env.POINTER_MOVE_MIN_DELTA_PX ?? 8);
+const RECONNECT_INITIAL_DELAY_MS = Number(process.env.RECONNECT_INITIAL_DELAY_MS ?? 500);
+const RECONNECT_MAX_DELAY_MS = Number(process.env.RECONNECT_MAX_DELAY_MS ?? 30_000);
+const AGENT_HEARTBEAT_INTERVAL_MS = Number(process.env.AGENT_HEARTBEAT_INTERVAL_MS ?? 10_000);
+const METRICS_PORT = Number(process.env.METRICS_PORT ?? 9464);
+const FRAME_QUALITY_ADAPTIVE = (process.env.FRAME_QUALITY_ADAPTIVE ?? "true").toLowerCase() === "true";
+const QUALITY_ADAPT_INTERVAL_MS = Number(process.env.QUALITY_ADAPT_INTERVAL_MS ?? 2000);
+const QUALITY_UPGRADE_AFTER_MS = Number(process.env.QUALITY_UPGRADE_AFTER_MS ?? 10_000);
 
+// The emulator tracks at most 10 concurrent touch identifiers.
+const MAX_TOUCH_POINTERS = 10;
+
+// Binary WS messages are wrapped in a versioned envelope (see encodeEnvelope)
+// so several data channels can share one socket.
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_HEADER_BYTES = 32;
+const BINARY_CHANNEL_FRAME = 0x01;
+const BINARY_CHANNEL_AUDIO = 0x02;
+const BINARY_CHANNEL_MIC = 0x03;
+const IMAGE_FORMATS = ["PNG", "RGBA8888", "RGB888"];
+const ROTATIONS = ["PORTRAIT", "LANDSCAPE", "REVERSE_PORTRAIT", "REVERSE_LANDSCAPE"];
+
+// Frame quality levels, best first. The emulator has no lossy format, so
+// below "high" frames are PNG (far smaller than raw pixels on the wire) with
+// the long side scaled down.
+const FRAME_QUALITIES = [
+  { name: "high", format: FRAME_FORMAT, scale: 1 },
+  { name: "medium", format: "PNG", scale: 0.75 },
+  { name: "low", format: "PNG", scale: 0.5 },
+  { name: "minimal", format: "PNG", scale: 0.33 },
+] as const;
+// A browser reporting a larger share of lost frames counts as congestion.
+const QUALITY_DROP_RATIO = 0.2;
+
+// Frame variants peers subscribe to, in the envelope's tier byte. "full"
+// follows the quality level above; the others are fixed PNG sizes.
+const FRAME_TIERS = ["full", "reduced", "thumbnail"] as const;
+const TIER_QUALITIES = {
+  reduced: { name: "reduced", format: "PNG", scale: 0.5 },
+  thumbnail: { name: "thumbnail", format: "PNG", scale: 0.2 },
+};
+
+// Signaling close codes that reconnecting with the same token cannot fix:
+// session expired, invalid token, session terminated by an admin and token
+// revoked.
+const FATAL_CLOSE_CODES = new Set([4001, 4003, 4007, 4008]);
+// The session was swept or lost with a signaling restart on the memory
+// store; with AUTO_CREATE_SESSION the agent creates a new one.
+const SESSION_NOT_FOUND_CLOSE_CODE = 4004;
+// Tokens are refreshed halfway through their lifetime, but never more often.
+const TOKEN_REFRESH_MIN_DELAY_MS = 5000;
+
+// The emulator keeps the microphone registered while injectAudio is open, so
+// the stream is closed once the browser stops sending.
+const MIC_IDLE_TIMEOUT_MS = 1000;
+
+// peerId is added by signaling so results can be routed back to the sender.
+// ackId asks for a control_ack once the resulting command has completed.
 const controlEnvelopeSchema = z.object({
   t: z.literal("control"),
   event: z.unknown(),
+  peerId: z.string().optional(),
+  ackId: z.number().int().optional(),
+});
+
+// Manual quality from the lock owner; "auto" hands back to the adaptive
+// controller.
+const frameQualityEnvelopeSchema = z.object({
+  t: z.literal("frame_quality"),
+  mode: z.enum(["auto", "high", "medium", "low", "minimal"]),
+});
+
+// Frames a browser received and lost (seq gaps) since its previous report.
+const frameFeedbackEnvelopeSchema = z.object({
+  t: z.literal("frame_feedback"),
+  received: z.number().int().min(0),
+  dropped: z.number().int().min(0),
+  peerId: z.string().optional(),
+});
+
+// Only the browser peers' frame tiers are read, to decide which variants to
+// stream.
+const sessionStateEnvelopeSchema = z.object({
+  t: z.literal("session_state"),
+  peers: z.array(z.object({ id: z.string(), role: z.string(), tier: z.enum(FRAME_TIERS).optional() })),
+});
+
+const pingEnvelopeSchema = z.object({
+  t: z.literal("ping"),
+  id: z.number().int(),
+  peerId: z.string(),
+});
+
+const clipboardEnvelopeSchema = z.object({
+  t: z.literal("clipboard"),
+  action: z.enum(["set", "get"]),
+  text: z.string().optional(),
+  peerId: z.string().optional(),
 });
 
 const pointerEventSchema = z.object({
   type: z.literal("pointer"),
   action: z.enum(["down", "move", "up"]),
+  pointerId: z.number().int().min(0).max(MAX_TOUCH_POINTERS - 1).default(0),
+  display: z.number().int().min(0).default(0),
   xNorm: z.number().min(0).max(1),
   yNorm: z.number().min(0).max(1),
   timestampMs: z.number().int().optional(),
@@ -39,11 +145,143 @@ const keyEventSchema = z.object({
   key: z.string().optional(),
 });
 
+const hoverEventSchema = z.object({
+  type: z.literal("hover"),
+  display: z.number().int().min(0).default(0),
+  xNorm: z.number().min(0).max(1),
+  yNorm: z.number().min(0).max(1),
+});
+
+// dx/dy use the emulator's wheel units: 120 per notch, positive dy scrolls up.
+const wheelEventSchema = z.object({
+  type: z.literal("wheel"),
+  display: z.number().int().min(0).default(0),
+  dx: z.number().int(),
+  dy: z.number().int(),
+  xNorm: z.number().min(0).max(1).optional(),
+  yNorm: z.number().min(0).max(1).optional(),
+});
+
 const navEventSchema = z.object({
   type: z.literal("nav"),
   action: z.enum(["home", "back", "recent", "rotate", "power"]),
 });
 
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  altitude: z.number().optional(),
+});
+
+const locationEventSchema = z.discriminatedUnion("action", [
+  z.object({ type: z.literal("location"), action: z.literal("set"), point: geoPointSchema }),
+  z.object({ type: z.literal("location"), action: z.literal("get") }),
+  z.object({
+    type: z.literal("location"),
+    action: z.literal("route_start"),
+    points: z.array(geoPointSchema).min(2).max(20_000),
+    speedMps: z.number().positive().max(1000),
+  }),
+  z.object({ type: z.literal("location"), action: z.literal("route_stop") }),
+]);
+
+// Names mirror SensorValue.SensorType and PhysicalModelValue.PhysicalType.
+const SENSOR_TYPES = [
+  "ACCELERATION",
+  "GYROSCOPE",
+  "MAGNETIC_FIELD",
+  "ORIENTATION",
+  "TEMPERATURE",
+  "PROXIMITY",
+  "LIGHT",
+  "PRESSURE",
+  "HUMIDITY",
+  "MAGNETIC_FIELD_UNCALIBRATED",
+  "GYROSCOPE_UNCALIBRATED",
+  "HEART_RATE",
+  "RGBC_LIGHT",
+  "ACCELERATION_UNCALIBRATED",
+] as const;
+
+const PHYSICAL_TYPES = [
+  "POSITION",
+  "ROTATION",
+  "MAGNETIC_FIELD",
+  "TEMPERATURE",
+  "PROXIMITY",
+  "LIGHT",
+  "PRESSURE",
+  "HUMIDITY",
+  "VELOCITY",
+  "AMBIENT_MOTION",
+  "HINGE_ANGLE0",
+  "HINGE_ANGLE1",
+  "HINGE_ANGLE2",
+  "ROLLABLE0",
+  "ROLLABLE1",
+  "ROLLABLE2",
+  "POSTURE",
+  "HEART_RATE",
+  "RGBC_LIGHT",
+  "WRIST_TILT",
+] as const;
+
+const deviceEventSchema = z.discriminatedUnion("action", [
+  z.object({
+    type: z.literal("device"),
+    action: z.literal("battery"),
+    chargeLevel: z.number().int().min(0).max(100),
+    charger: z.enum(["NONE", "AC", "USB", "WIRELESS"]),
+    health: z.enum(["GOOD", "FAILED", "DEAD", "OVERVOLTAGE", "OVERHEATED"]).default("GOOD"),
+    status: z.enum(["UNKNOWN", "CHARGING", "DISCHARGING", "NOT_CHARGING", "FULL"]).optional(),
+  }),
+  z.object({
+    type: z.literal("device"),
+    action: z.literal("sensor"),
+    sensor: z.enum(SENSOR_TYPES),
+    values: z.array(z.number()).min(1).max(4),
+  }),
+  z.object({
+    type: z.literal("device"),
+    action: z.literal("physical"),
+    target: z.enum(PHYSICAL_TYPES),
+    values: z.array(z.number()).min(1).max(4),
+  }),
+  z.object({
+    type: z.literal("device"),
+    action: z.literal("fingerprint"),
+    touchId: z.number().int().min(0),
+  }),
+]);
+
+const telephonyEventSchema = z.discriminatedUnion("action", [
+  z.object({
+    type: z.literal("telephony"),
+    action: z.literal("call"),
+    operation: z.enum([
+      "InitCall",
+      "AcceptCall",
+      "RejectCallExplicit",
+      "RejectCallBusy",
+      "DisconnectCall",
+      "PlaceCallOnHold",
+      "TakeCallOffHold",
+    ]),
+    number: z.string().min(1).max(32),
+  }),
+  z.object({
+    type: z.literal("telephony"),
+    action: z.literal("sms"),
+    srcAddress: z.string().min(1).max(32),
+    text: z.string().min(1).max(4096),
+  }),
+  z.object({
+    type: z.literal("telephony"),
+    action: z.literal("set_number"),
+    number: z.string().min(1).max(32),
+  }),
+]);
+
 type SessionDetails = {
   sessionId: string;
   controllerToken: string;
@@ -55,6 +293,143 @@ type SessionDetails = {
 
 type DisplaySize = { width: number; height: number };
 
+type DisplayInfo = DisplaySize & { id: number; dpi: number };
+
+// Size and orientation of the frames actually being streamed for a display.
+type FrameFormat = DisplaySize & { rotation: string };
+
+type FrameQuality = { name: string; format: string; scale: number };
+type FrameQualityMode = z.infer<typeof frameQualityEnvelopeSchema>["mode"];
+type FrameTier = (typeof FRAME_TIERS)[number];
+
+// Screenshot streams run per display and tier.
+const streamKey = (display: number, tier: FrameTier): string => `${display}:${tier}`;
+
+// Frames are rotated to match the device; touch coordinates are not.
+const isLandscape = (rotation: string): boolean => rotation === "LANDSCAPE" || rotation === "REVERSE_LANDSCAPE";
+
+type GeoPoint = z.infer<typeof geoPointSchema>;
+type ControlEnvelope = z.infer<typeof controlEnvelopeSchema>;
+type ControlAck = { peerId: string; ackId: number; receivedAt: number };
+
+type RoutePlayback = {
+  points: GeoPoint[];
+  cumulativeMeters: number[];
+  speedMps: number;
+  startedAt: number;
+  timer: NodeJS.Timeout;
+};
+
+type ActiveTouch = {
+  display: number;
+  x: number;
+  y: number;
+  lastSentX: number;
+  lastSentY: number;
+  lastMoveTs: number;
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+const haversineMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const bearingDegrees = (a: GeoPoint, b: GeoPoint): number => {
+  const dLng = toRadians(b.longitude - a.longitude);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.latitude));
+  const x =
+    Math.cos(toRadians(a.latitude)) * Math.sin(toRadians(b.latitude)) -
+    Math.sin(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// Linear interpolation is accurate enough between the closely spaced points
+// of a GPX/KML track.
+const pointAlongRoute = (
+  points: GeoPoint[],
+  cumulativeMeters: number[],
+  distance: number,
+): { point: GeoPoint; bearing: number } => {
+  let segment = 1;
+  while (segment < points.length - 1 && cumulativeMeters[segment] < distance) segment += 1;
+  const from = points[segment - 1];
+  const to = points[segment];
+  const length = cumulativeMeters[segment] - cumulativeMeters[segment - 1];
+  const t = length > 0 ? Math.min(1, Math.max(0, (distance - cumulativeMeters[segment - 1]) / length)) : 1;
+  return {
+    point: {
+      latitude: from.latitude + (to.latitude - from.latitude) * t,
+      longitude: from.longitude + (to.longitude - from.longitude) * t,
+      altitude: (from.altitude ?? 0) + ((to.altitude ?? 0) - (from.altitude ?? 0)) * t,
+    },
+    bearing: bearingDegrees(from, to),
+  };
+};
+
+// Envelope v1 header, little endian:
+//   0 u8  version         1 u8  channel        2 u16 header bytes
+//   4 u16 display         6 u8  format         7 u8  rotation
+//   8 u32 seq            12 u32 width         16 u32 height
+//  20 f64 capture time (unix ms)              28 u8  tier
+//  29 3 bytes reserved
+// Tier indexes FRAME_TIERS (0 full, 1 reduced, 2 thumbnail) and is 0 for
+// audio/mic. For audio/mic, format is the channel count and width the sample rate.
+// Readers must skip to "header bytes" so later versions can grow the header.
+type EnvelopeHeader = {
+  channel: number;
+  display: number;
+  format: number;
+  rotation: number;
+  seq: number;
+  width: number;
+  height: number;
+  captureTimeMs: number;
+  tier: number;
+};
+
+const encodeEnvelope = (header: EnvelopeHeader, payload: Buffer): Buffer => {
+  const out = Buffer.alloc(ENVELOPE_HEADER_BYTES + payload.length);
+  out.writeUInt8(ENVELOPE_VERSION, 0);
+  out.writeUInt8(header.channel, 1);
+  out.writeUInt16LE(ENVELOPE_HEADER_BYTES, 2);
+  out.writeUInt16LE(header.display, 4);
+  out.writeUInt8(header.format, 6);
+  out.writeUInt8(header.rotation, 7);
+  out.writeUInt32LE(header.seq >>> 0, 8);
+  out.writeUInt32LE(header.width, 12);
+  out.writeUInt32LE(header.height, 16);
+  out.writeDoubleLE(header.captureTimeMs, 20);
+  out.writeUInt8(header.tier, 28);
+  payload.copy(out, ENVELOPE_HEADER_BYTES);
+  return out;
+};
+
+const decodeEnvelope = (data: Buffer): { header: EnvelopeHeader; payload: Buffer } | null => {
+  if (data.length < ENVELOPE_HEADER_BYTES || data.readUInt8(0) !== ENVELOPE_VERSION) return null;
+  const headerBytes = data.readUInt16LE(2);
+  if (headerBytes < ENVELOPE_HEADER_BYTES || headerBytes > data.length) return null;
+  return {
+    header: {
+      channel: data.readUInt8(1),
+      display: data.readUInt16LE(4),
+      format: data.readUInt8(6),
+      rotation: data.readUInt8(7),
+      seq: data.readUInt32LE(8),
+      width: data.readUInt32LE(12),
+      height: data.readUInt32LE(16),
+      captureTimeMs: data.readDoubleLE(20),
+      tier: data.readUInt8(28),
+    },
+    payload: data.subarray(headerBytes),
+  };
+};
+
 const wsUrlFromBase = (url: string): string => {
   const parsed = new URL(url);
   parsed.protocol = parsed.protocol === "https:" ? "wss:" : "ws:";
@@ -85,20 +460,47 @@ const maybeCreateSession = async (): Promise<SessionDetails> => {
     };
   }
 
-  const emulatorId = process.env.EMULATOR_ID ?? EMULATOR_GRPC_ENDPOINT;
   const response = await fetch(`${SIGNALING_BASE_URL}/api/dev/sessions`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ emulatorId, expiresInSec: 3600 }),
+    body: JSON.stringify({ emulatorId: EMULATOR_ID, expiresInSec: 3600 }),
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to create session: ${response.status} ${await response.text()}`);
+    throw Object.assign(new Error(`Failed to create session: ${response.status} ${await response.text()}`), {
+      status: response.status,
+    });
   }
 
   return (await response.json()) as SessionDetails;
 };
 
+// Reads exp without verifying; signaling is the one that checks the token.
+const tokenExpiresAt = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8"));
+    return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const refreshToken = async (token: string): Promise<string> => {
+  const response = await fetch(`${SIGNALING_BASE_URL}/api/tokens/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    throw Object.assign(new Error(`Failed to refresh token: ${response.status} ${await response.text()}`), {
+      status: response.status,
+    });
+  }
+
+  return ((await response.json()) as { token: string }).token;
+};
+
 const fileDir = path.dirname(fileURLToPath(import.meta.url));
 const protoPath = path.resolve(fileDir, "../proto/emulator_controller.proto");
 
@@ -118,12 +520,35 @@ if (!EmulatorController) {
   throw new Error("Unable to load EmulatorController from proto");
 }
 
+type UnaryMethod =
+  | "sendTouch"
+  | "sendKey"
+  | "sendMouse"
+  | "setClipboard"
+  | "getClipboard"
+  | "setGps"
+  | "getGps"
+  | "setBattery"
+  | "setSensor"
+  | "setPhysicalModel"
+  | "sendFingerprint"
+  | "sendPhone"
+  | "sendSms"
+  | "setPhoneNumber"
+  | "getDisplayConfigurations"
+  | "getStatus";
+type UnaryCall = (req: unknown, metadata: grpc.Metadata, cb: (err: grpc.ServiceError | null, response?: any) => void) => void;
+
 const credentials = EMULATOR_GRPC_INSECURE ? grpc.credentials.createInsecure() : grpc.credentials.createSsl();
-const grpcClient = new EmulatorController(EMULATOR_GRPC_ENDPOINT, credentials) as grpc.Client & {
-  streamScreenshot: (req: unknown, metadata?: grpc.Metadata) => grpc.ClientReadableStream<any>;
-  sendTouch: (req: unknown, metadata: grpc.Metadata, cb: (err: grpc.ServiceError | null) => void) => void;
-  sendKey: (req: unknown, metadata: grpc.Metadata, cb: (err: grpc.ServiceError | null) => void) => void;
-};
+const grpcClient = new EmulatorController(EMULATOR_GRPC_ENDPOINT, credentials) as grpc.Client &
+  Record<UnaryMethod, UnaryCall> & {
+    streamScreenshot: (req: unknown, metadata?: grpc.Metadata) => grpc.ClientReadableStream<any>;
+    streamClipboard: (req: unknown, metadata?: grpc.Metadata) => grpc.ClientReadableStream<any>;
+    streamAudio: (req: unknown, metadata?: grpc.Metadata) => grpc.ClientReadableStream<any>;
+    streamLogcat: (req: unknown, metadata?: grpc.Metadata) => grpc.ClientReadableStream<any>;
+    injectWheel: (metadata: grpc.Metadata, cb: (err: grpc.ServiceError | null) => void) => grpc.ClientWritableStream<unknown>;
+    injectAudio: (metadata: grpc.Metadata, cb: (err: grpc.ServiceError | null) => void) => grpc.ClientWritableStream<unknown>;
+  };
 
 const getEndpointPort = (endpoint: string): string => {
   const defaultPort = "8554";
@@ -186,49 +611,172 @@ const discoverGrpcToken = async (endpoint: string): Promise<string> => {
 
 let grpcMetadata = new grpc.Metadata();
 
-const unaryWithMetadata = async (method: "sendTouch" | "sendKey", payload: unknown): Promise<void> => {
-  await new Promise<void>((resolve, reject) => {
-    grpcClient[method](payload, grpcMetadata, (err) => {
-      if (err) reject(err);
-      else resolve();
+// The discovered token changes with every emulator launch, so it is re-read
+// whenever streams are reopened after a failure.
+const refreshGrpcMetadata = async (): Promise<string> => {
+  const token = EMULATOR_GRPC_BEARER_TOKEN || (await discoverGrpcToken(EMULATOR_GRPC_ENDPOINT));
+  grpcMetadata = new grpc.Metadata();
+  if (token) {
+    grpcMetadata.add("authorization", `Bearer ${token}`);
+  }
+  return token;
+};
+
+// Exponential backoff with jitter so agents sharing a signaling node don't
+// reconnect in lockstep after a redeploy.
+const reconnectDelay = (attempt: number): number => {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_INITIAL_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const metrics = new Registry();
+collectDefaultMetrics({ register: metrics, labels: { emulator_id: EMULATOR_ID } });
+
+const framesReceived = new Counter({
+  name: "agent_frames_received_total",
+  help: "Screenshot frames received from the emulator",
+  labelNames: ["display", "tier"],
+  registers: [metrics],
+});
+const framesSent = new Counter({
+  name: "agent_frames_sent_total",
+  help: "Frames written to the signaling socket",
+  labelNames: ["display", "tier"],
+  registers: [metrics],
+});
+const framesDropped = new Counter({
+  name: "agent_frames_dropped_total",
+  help: "Frames not sent, by reason (backpressure is MAX_WS_BUFFERED_BYTES)",
+  labelNames: ["display", "tier", "reason"],
+  registers: [metrics],
+});
+const grpcCallDuration = new Histogram({
+  name: "agent_grpc_call_duration_seconds",
+  help: "Latency of unary emulator calls such as sendTouch and sendKey",
+  labelNames: ["method"],
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metrics],
+});
+const grpcErrors = new Counter({
+  name: "agent_grpc_errors_total",
+  help: "Failed emulator calls and streams by method and gRPC status code",
+  labelNames: ["method", "code"],
+  registers: [metrics],
+});
+
+const countGrpcError = (method: string, error: Partial<grpc.ServiceError>): void => {
+  grpcErrors.inc({ method, code: String(error.code ?? "unknown") });
+};
+
+const unaryWithMetadata = async <T = void>(method: UnaryMethod, payload: unknown): Promise<T> => {
+  const endTimer = grpcCallDuration.startTimer({ method });
+  return await new Promise<T>((resolve, reject) => {
+    grpcClient[method](payload, grpcMetadata, (err, response) => {
+      endTimer();
+      if (err) {
+        countGrpcError(method, err);
+        reject(err);
+      } else resolve(response as T);
     });
   });
 };
 
-const screenshotRequest = {
+const audioRequest = {
+  samplingRate: AUDIO_SAMPLE_RATE,
+  channels: AUDIO_CHANNELS === 1 ? "Mono" : "Stereo",
+  format: "AUD_FMT_S16",
+  mode: "MODE_REAL_TIME",
+};
+
+// Scaled levels bound both sides by the scaled long side of the full-quality
+// frame; the emulator keeps the aspect ratio, so this holds in any rotation.
+// 0 means unscaled (FRAME_WIDTH/FRAME_HEIGHT).
+const scaledBound = (quality: FrameQuality, fullSize?: DisplaySize): number =>
+  quality.scale < 1 && fullSize ? Math.round(Math.max(fullSize.width, fullSize.height) * quality.scale) : 0;
+
+const screenshotRequest = (display: number, format: string, bound: number) => ({
   format: {
-    format: FRAME_FORMAT,
-    width: FRAME_WIDTH,
-    height: FRAME_HEIGHT,
-    display: 0,
+    format,
+    width: bound || FRAME_WIDTH,
+    height: bound || FRAME_HEIGHT,
+    display,
   },
-};
+});
+
+const streamedDisplayIds =
+  FRAME_DISPLAYS === "all" ? null : new Set(FRAME_DISPLAYS.split(",").map((id) => Number(id.trim())));
 
 const main = async (): Promise<void> => {
-  const resolvedToken = EMULATOR_GRPC_BEARER_TOKEN || (await discoverGrpcToken(EMULATOR_GRPC_ENDPOINT));
-  grpcMetadata = new grpc.Metadata();
-  if (resolvedToken) {
-    grpcMetadata.add("authorization", `Bearer ${resolvedToken}`);
-  }
+  const resolvedToken = await refreshGrpcMetadata();
 
   const session = await maybeCreateSession();
+  // Join URLs carry access tokens, which expire after signaling's
+  // ACCESS_TOKEN_TTL_SEC unless the tab that opened them refreshes them.
+  const printSession = (): void => {
+    console.log(`sessionId=${session.sessionId}`);
+    console.log(`controller: ${session.joinUrlController}`);
+    console.log(`viewer: ${session.joinUrlViewer}`);
+    const expiresAt = tokenExpiresAt(session.controllerToken);
+    if (expiresAt !== null) {
+      console.log(
+        `join URLs expire at ${new Date(expiresAt).toISOString()} (ACCESS_TOKEN_TTL_SEC); mint new ones with POST /api/dev/sessions/${session.sessionId}/join`,
+      );
+    }
+  };
   console.log(`grpc endpoint=${EMULATOR_GRPC_ENDPOINT}`);
   console.log(`grpc auth token=${resolvedToken ? "present" : "missing"}`);
-  console.log(`sessionId=${session.sessionId}`);
-  console.log(`controller: ${session.joinUrlController}`);
-  console.log(`viewer: ${session.joinUrlViewer}`);
+  printSession();
 
-  const ws = new WebSocket(wsUrlFromBase(SIGNALING_BASE_URL));
+  let ws: WebSocket | null = null;
+  let wsAttempt = 0;
+  let tokenRefreshTimer: NodeJS.Timeout | null = null;
 
-  let currentDisplay: DisplaySize | null = null;
-  let touchActive = false;
-  let lastMoveTs = 0;
-  let lastSentX = 0;
-  let lastSentY = 0;
+  // Unrotated (natural orientation) size, which is what sendTouch expects.
+  const displaySizes = new Map<number, DisplaySize>();
+  const frameFormats = new Map<number, FrameFormat>();
+  let streamedDisplays: DisplayInfo[] = [];
+  // Keyed by streamKey(display, tier).
+  const screenshotStreams = new Map<string, grpc.ClientReadableStream<any>>();
+  const screenshotRestarts = new Map<string, NodeJS.Timeout>();
+  const screenshotAttempts = new Map<string, number>();
+  // Browser peers' tiers from session_state.
+  let peerTiers = new Map<string, FrameTier>();
+  let deviceAvailable = true;
+  const activeTouches = new Map<number, ActiveTouch>();
+  let lastHoverTs = 0;
+  let wheelStream: grpc.ClientWritableStream<unknown> | null = null;
+  let micStream: grpc.ClientWritableStream<unknown> | null = null;
+  let micIdleTimer: NodeJS.Timeout | null = null;
+  let route: RoutePlayback | null = null;
+  let qualityMode: FrameQualityMode = "auto";
+  let qualityLevel = 0;
+  // Congestion seen since the last adaptive step.
+  let backpressureDrops = 0;
+  let worstFeedbackDropRatio = 0;
+  let lastCongestedAt = Date.now();
 
   const commandQueue: Array<() => Promise<void>> = [];
   let pendingMove: (() => Promise<void>) | null = null;
+  // Acks of every move coalesced into pendingMove, answered once it ran.
+  let pendingMoveAcks: ControlAck[] = [];
   let workerRunning = false;
+  // Set while handling a control message with an ackId; taken by the first
+  // command it enqueues, or answered at once if it enqueues none.
+  let controlAck: ControlAck | null = null;
+
+  const sendControlAck = (ack: ControlAck): void => {
+    sendJson({ t: "control_ack", peerId: ack.peerId, ackId: ack.ackId, agentMs: performance.now() - ack.receivedAt });
+  };
+
+  const withAcks =
+    (fn: () => Promise<void>, acks: ControlAck[]): (() => Promise<void>) =>
+    async () => {
+      try {
+        await fn();
+      } finally {
+        for (const ack of acks) sendControlAck(ack);
+      }
+    };
 
   const processQueue = (): void => {
     if (workerRunning) return;
@@ -236,9 +784,13 @@ const main = async (): Promise<void> => {
 
     void (async () => {
       while (commandQueue.length > 0 || pendingMove) {
-        const next = commandQueue.length > 0 ? commandQueue.shift()! : pendingMove!;
-        if (commandQueue.length === 0 && pendingMove === next) {
+        let next: () => Promise<void>;
+        if (commandQueue.length > 0) {
+          next = commandQueue.shift()!;
+        } else {
+          next = withAcks(pendingMove!, pendingMoveAcks);
           pendingMove = null;
+          pendingMoveAcks = [];
         }
         try {
           await next();
@@ -253,82 +805,292 @@ const main = async (): Promise<void> => {
     })();
   };
 
+  new Gauge({
+    name: "agent_command_queue_depth",
+    help: "Control commands waiting for the emulator, including a coalesced pointer move",
+    registers: [metrics],
+    collect() {
+      this.set(commandQueue.length + (pendingMove ? 1 : 0));
+    },
+  });
+
+  new Gauge({
+    name: "agent_frame_quality_level",
+    help: "Current frame quality level, 0 is the configured FRAME_FORMAT and size",
+    registers: [metrics],
+    collect() {
+      this.set(qualityLevel);
+    },
+  });
+
+  // A move that replaces the pending one keeps its acks, so every ackId
+  // still gets an answer.
   const enqueue = (fn: () => Promise<void>, coalesceMove = false): void => {
-    if (coalesceMove) pendingMove = fn;
-    else commandQueue.push(fn);
+    const ack = controlAck;
+    controlAck = null;
+    if (coalesceMove) {
+      pendingMove = fn;
+      if (ack) pendingMoveAcks.push(ack);
+    } else {
+      commandQueue.push(ack ? withAcks(fn, [ack]) : fn);
+    }
     processQueue();
   };
 
-  const resolvePoint = (xNorm: number, yNorm: number): { x: number; y: number } | null => {
-    if (!currentDisplay) return null;
+  const resolvePoint = (display: number, xNorm: number, yNorm: number): { x: number; y: number } | null => {
+    // Before any size is known, a display that reported one through its config
+    // still maps; a 0x0 primary doesn't.
+    const size =
+      displaySizes.get(display) ??
+      streamedDisplays.find((info) => info.id === display && info.width > 0 && info.height > 0);
+    if (!size) return null;
     return {
-      x: Math.round(xNorm * currentDisplay.width),
-      y: Math.round(yNorm * currentDisplay.height),
+      x: Math.round(xNorm * size.width),
+      y: Math.round(yNorm * size.height),
     };
   };
 
-  ws.on("open", () => {
-    ws.send(JSON.stringify({ t: "hello", token: session.agentToken }));
+  const touchPayload = (identifier: number, x: number, y: number, pressure: number) => ({
+    x,
+    y,
+    identifier,
+    pressure,
+    expiration: "NEVER_EXPIRE",
   });
 
-  ws.on("message", (raw, isBinary) => {
-    if (isBinary) return;
+  // Reads positions when the command runs so a coalesced move always carries
+  // every finger still down, including ones lifted after it was queued.
+  const sendActiveTouches = async (): Promise<void> => {
+    const touchesByDisplay = new Map<number, ReturnType<typeof touchPayload>[]>();
+    for (const [id, touch] of activeTouches) {
+      touch.lastSentX = touch.x;
+      touch.lastSentY = touch.y;
+      const touches = touchesByDisplay.get(touch.display) ?? [];
+      touches.push(touchPayload(id, touch.x, touch.y, 180));
+      touchesByDisplay.set(touch.display, touches);
+    }
+    for (const [display, touches] of touchesByDisplay) {
+      await unaryWithMetadata("sendTouch", { touches, display });
+    }
+  };
 
-    let message: unknown;
-    try {
-      message = JSON.parse(raw.toString());
-    } catch {
-      return;
+  // injectWheel is a client stream; keep one open and reopen it lazily if the
+  // emulator closes it.
+  const writeWheel = (dx: number, dy: number, display: number): void => {
+    if (!wheelStream) {
+      const stream = grpcClient.injectWheel(grpcMetadata, (err) => {
+        if (err) {
+          console.error("gRPC wheel stream error", err);
+          countGrpcError("injectWheel", err);
+        }
+        if (wheelStream === stream) wheelStream = null;
+      });
+      wheelStream = stream;
     }
+    wheelStream.write({ dx, dy, display });
+  };
 
-    const controlEnvelope = controlEnvelopeSchema.safeParse(message);
-    if (!controlEnvelope.success) {
-      return;
+  const closeMicStream = (): void => {
+    micStream?.end();
+    micStream = null;
+  };
+
+  // Only the first packet's format is honoured by the emulator.
+  const injectMicPacket = (header: EnvelopeHeader, audio: Buffer): void => {
+    if (audio.length === 0) return;
+    const samplingRate = header.width;
+    const channels = header.format === 1 ? "Mono" : "Stereo";
+
+    if (!micStream) {
+      const stream = grpcClient.injectAudio(grpcMetadata, (err) => {
+        if (err) {
+          console.error("gRPC mic stream error", err);
+          countGrpcError("injectAudio", err);
+        }
+        if (micStream === stream) micStream = null;
+      });
+      micStream = stream;
+    }
+    micStream.write({
+      format: { samplingRate, channels, format: "AUD_FMT_S16", mode: "MODE_REAL_TIME" },
+      timestamp: String(Math.round(header.captureTimeMs * 1000)),
+      audio,
+    });
+
+    if (micIdleTimer) clearTimeout(micIdleTimer);
+    micIdleTimer = setTimeout(closeMicStream, MIC_IDLE_TIMEOUT_MS);
+  };
+
+  const sendJson = (payload: unknown): void => {
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(payload));
     }
+  };
+
+  // Control features this agent can serve, announced to the session directory.
+  const capabilities = [
+    "touch",
+    "keys",
+    "hover",
+    "wheel",
+    "clipboard",
+    "logcat",
+    "location",
+    "device",
+    "telephony",
+    "displays",
+    "microphone",
+    ...(AUDIO_ENABLED ? ["audio"] : []),
+  ];
+
+  const health = () => ({
+    deviceAvailable,
+    displays: streamedDisplays.length,
+    queueDepth: commandQueue.length + (pendingMove ? 1 : 0),
+    uptimeSec: Math.round(process.uptime()),
+  });
+
+  // Tracks the primary display's stream so clients can tell a device that is
+  // restarting from one that simply stopped sending frames.
+  const setDeviceAvailable = (available: boolean, reason?: string): void => {
+    if (deviceAvailable === available) return;
+    deviceAvailable = available;
+    sendJson({ t: "device_state", available, reason });
+  };
 
-    const pointer = pointerEventSchema.safeParse(controlEnvelope.data.event);
+  // Commands queued for the previous connection must not reach the device
+  // once it drops; the one already running is left to finish. Fingers still
+  // down are lifted so the device doesn't keep a stuck touch.
+  const resetControlState = (): void => {
+    commandQueue.length = 0;
+    pendingMove = null;
+    pendingMoveAcks = [];
+    const lifted = [...activeTouches.entries()];
+    activeTouches.clear();
+    for (const [id, touch] of lifted) {
+      enqueue(() =>
+        unaryWithMetadata("sendTouch", {
+          touches: [touchPayload(id, touch.x, touch.y, 0)],
+          display: touch.display,
+        }),
+      );
+    }
+    if (micIdleTimer) clearTimeout(micIdleTimer);
+    micIdleTimer = null;
+    closeMicStream();
+  };
+
+  const routeStatus = () =>
+    route
+      ? {
+          speedMps: route.speedMps,
+          totalMeters: route.cumulativeMeters[route.cumulativeMeters.length - 1],
+          progressMeters: Math.min(
+            route.cumulativeMeters[route.cumulativeMeters.length - 1],
+            ((Date.now() - route.startedAt) / 1000) * route.speedMps,
+          ),
+        }
+      : null;
+
+  const broadcastLocation = (point: GeoPoint): void => {
+    sendJson({ t: "location_state", ...point, route: routeStatus() });
+  };
+
+  // passiveUpdate=false stops the emulator's location UI from overriding us.
+  const setGps = (point: GeoPoint, speed = 0, bearing = 0): void => {
+    enqueue(async () => {
+      await unaryWithMetadata("setGps", {
+        passiveUpdate: false,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: point.altitude ?? 0,
+        speed,
+        bearing,
+        satellites: 12,
+      });
+      broadcastLocation(point);
+    });
+  };
+
+  const refreshLocation = (): void => {
+    enqueue(async () => {
+      const gps = await unaryWithMetadata<{ latitude?: number; longitude?: number; altitude?: number }>("getGps", {});
+      broadcastLocation({
+        latitude: Number(gps?.latitude ?? 0),
+        longitude: Number(gps?.longitude ?? 0),
+        altitude: Number(gps?.altitude ?? 0),
+      });
+    });
+  };
+
+  const stopRoute = (): void => {
+    if (!route) return;
+    clearInterval(route.timer);
+    route = null;
+  };
+
+  // Playback runs here rather than in the browser so a throttled background
+  // tab doesn't stall the route.
+  const startRoute = (points: GeoPoint[], speedMps: number): void => {
+    stopRoute();
+    const cumulativeMeters = [0];
+    for (let i = 1; i < points.length; i += 1) {
+      cumulativeMeters.push(cumulativeMeters[i - 1] + haversineMeters(points[i - 1], points[i]));
+    }
+    const totalMeters = cumulativeMeters[cumulativeMeters.length - 1];
+
+    const tick = (): void => {
+      if (!route) return;
+      const distance = ((Date.now() - route.startedAt) / 1000) * route.speedMps;
+      const { point, bearing } = pointAlongRoute(route.points, route.cumulativeMeters, distance);
+      if (distance >= totalMeters) {
+        stopRoute();
+        setGps(point);
+        return;
+      }
+      setGps(point, route.speedMps, bearing);
+    };
+
+    route = { points, cumulativeMeters, speedMps, startedAt: Date.now(), timer: setInterval(tick, GPS_UPDATE_INTERVAL_MS) };
+    tick();
+  };
+
+  const handleControl = (control: ControlEnvelope): void => {
+    const pointer = pointerEventSchema.safeParse(control.event);
     if (pointer.success) {
-      const point = resolvePoint(pointer.data.xNorm, pointer.data.yNorm);
+      const { pointerId, display } = pointer.data;
+      const point = resolvePoint(display, pointer.data.xNorm, pointer.data.yNorm);
       if (!point) return;
 
       const now = Date.now();
+      const touch = activeTouches.get(pointerId);
 
       if (pointer.data.action === "down") {
-        touchActive = true;
-        lastMoveTs = now;
-        lastSentX = point.x;
-        lastSentY = point.y;
+        activeTouches.set(pointerId, { display, x: point.x, y: point.y, lastSentX: point.x, lastSentY: point.y, lastMoveTs: now });
         enqueue(() =>
           unaryWithMetadata("sendTouch", {
-            touches: [{ x: point.x, y: point.y, identifier: 0, pressure: 180, expiration: "NEVER_EXPIRE" }],
-            display: 0,
+            touches: [touchPayload(pointerId, point.x, point.y, 180)],
+            display,
           }),
         );
       }
 
-      if (pointer.data.action === "move" && touchActive) {
-        const delta = Math.abs(point.x - lastSentX) + Math.abs(point.y - lastSentY);
-        if (now - lastMoveTs >= POINTER_MOVE_MIN_INTERVAL_MS && delta >= POINTER_MOVE_MIN_DELTA_PX) {
-          lastMoveTs = now;
-          lastSentX = point.x;
-          lastSentY = point.y;
-          enqueue(
-            () =>
-              unaryWithMetadata("sendTouch", {
-                touches: [{ x: point.x, y: point.y, identifier: 0, pressure: 180, expiration: "NEVER_EXPIRE" }],
-                display: 0,
-              }),
-            true,
-          );
+      if (pointer.data.action === "move" && touch) {
+        touch.x = point.x;
+        touch.y = point.y;
+        const delta = Math.abs(point.x - touch.lastSentX) + Math.abs(point.y - touch.lastSentY);
+        if (now - touch.lastMoveTs >= POINTER_MOVE_MIN_INTERVAL_MS && delta >= POINTER_MOVE_MIN_DELTA_PX) {
+          touch.lastMoveTs = now;
+          enqueue(sendActiveTouches, true);
         }
       }
 
-      if (pointer.data.action === "up" && touchActive) {
-        touchActive = false;
+      if (pointer.data.action === "up" && touch) {
+        activeTouches.delete(pointerId);
         enqueue(() =>
           unaryWithMetadata("sendTouch", {
-            touches: [{ x: point.x, y: point.y, identifier: 0, pressure: 0, expiration: "NEVER_EXPIRE" }],
-            display: 0,
+            touches: [touchPayload(pointerId, point.x, point.y, 0)],
+            display: touch.display,
           }),
         );
       }
@@ -336,7 +1098,31 @@ const main = async (): Promise<void> => {
       return;
     }
 
-    const keyEvent = keyEventSchema.safeParse(controlEnvelope.data.event);
+    const hover = hoverEventSchema.safeParse(control.event);
+    if (hover.success) {
+      const { display } = hover.data;
+      const point = resolvePoint(display, hover.data.xNorm, hover.data.yNorm);
+      if (!point || activeTouches.size > 0) return;
+
+      const now = Date.now();
+      if (now - lastHoverTs < POINTER_MOVE_MIN_INTERVAL_MS) return;
+      lastHoverTs = now;
+      enqueue(() => unaryWithMetadata("sendMouse", { x: point.x, y: point.y, buttons: 0, display }), true);
+      return;
+    }
+
+    const wheel = wheelEventSchema.safeParse(control.event);
+    if (wheel.success) {
+      const { dx, dy, xNorm, yNorm, display } = wheel.data;
+      const point = xNorm !== undefined && yNorm !== undefined ? resolvePoint(display, xNorm, yNorm) : null;
+      if (point) {
+        enqueue(() => unaryWithMetadata("sendMouse", { x: point.x, y: point.y, buttons: 0, display }));
+      }
+      enqueue(async () => writeWheel(dx, dy, display));
+      return;
+    }
+
+    const keyEvent = keyEventSchema.safeParse(control.event);
     if (keyEvent.success && keyEvent.data.action === "down") {
       const key = keyEvent.data.key;
       if (key && key.length > 0) {
@@ -347,7 +1133,7 @@ const main = async (): Promise<void> => {
       return;
     }
 
-    const nav = navEventSchema.safeParse(controlEnvelope.data.event);
+    const nav = navEventSchema.safeParse(control.event);
     if (nav.success) {
       const keyMap: Record<typeof nav.data.action, string> = {
         home: "GoHome",
@@ -362,44 +1148,646 @@ const main = async (): Promise<void> => {
       } else {
         enqueue(() => unaryWithMetadata("sendKey", { key: keyMap[nav.data.action], eventType: "keypress" }));
       }
+      return;
     }
-  });
 
-  ws.on("close", (code, reason) => {
-    console.error(`ws closed code=${code} reason=${reason.toString()}`);
-    process.exit(1);
-  });
+    const location = locationEventSchema.safeParse(control.event);
+    if (location.success) {
+      const event = location.data;
+      if (event.action === "set") {
+        stopRoute();
+        setGps(event.point);
+      }
+      if (event.action === "get") {
+        refreshLocation();
+      }
+      if (event.action === "route_start") {
+        startRoute(event.points, event.speedMps);
+      }
+      if (event.action === "route_stop") {
+        stopRoute();
+        refreshLocation();
+      }
+      return;
+    }
 
-  ws.on("error", (err) => {
-    console.error("ws error", err);
-  });
+    const device = deviceEventSchema.safeParse(control.event);
+    if (device.success) {
+      const event = device.data;
+      if (event.action === "battery") {
+        const charging = event.charger !== "NONE";
+        const status = event.status ?? (charging ? (event.chargeLevel === 100 ? "FULL" : "CHARGING") : "DISCHARGING");
+        enqueue(() =>
+          unaryWithMetadata("setBattery", {
+            hasBattery: true,
+            isPresent: true,
+            charger: event.charger,
+            chargeLevel: event.chargeLevel,
+            health: event.health,
+            status,
+          }),
+        );
+      }
+      if (event.action === "sensor") {
+        enqueue(() => unaryWithMetadata("setSensor", { target: event.sensor, value: { data: event.values } }));
+      }
+      if (event.action === "physical") {
+        enqueue(() => unaryWithMetadata("setPhysicalModel", { target: event.target, value: { data: event.values } }));
+      }
+      if (event.action === "fingerprint") {
+        enqueue(async () => {
+          await unaryWithMetadata("sendFingerprint", { isTouching: true, touchId: event.touchId });
+          await new Promise((resolve) => setTimeout(resolve, FINGERPRINT_TOUCH_MS));
+          await unaryWithMetadata("sendFingerprint", { isTouching: false, touchId: event.touchId });
+        });
+      }
+      return;
+    }
 
-  const screenshotStream = grpcClient.streamScreenshot(screenshotRequest, grpcMetadata);
+    const telephony = telephonyEventSchema.safeParse(control.event);
+    if (telephony.success) {
+      const event = telephony.data;
+      const peerId = control.peerId;
+      enqueue(async () => {
+        let response = "ActionFailed";
+        try {
+          const result =
+            event.action === "call"
+              ? await unaryWithMetadata<{ response?: string }>("sendPhone", { operation: event.operation, number: event.number })
+              : event.action === "sms"
+                ? await unaryWithMetadata<{ response?: string }>("sendSms", { srcAddress: event.srcAddress, text: event.text })
+                : await unaryWithMetadata<{ response?: string }>("setPhoneNumber", { number: event.number });
+          response = String(result?.response ?? "OK");
+        } catch (error) {
+          console.error("telephony command failed", error);
+        }
+        sendJson({ t: "control_result", peerId, type: "telephony", action: event.action, ok: response === "OK", response });
+      });
+    }
+  };
 
-  screenshotStream.on("data", (frame: any) => {
-    const image: Buffer = frame?.image;
-    const width = Number(frame?.format?.width ?? 0);
-    const height = Number(frame?.format?.height ?? 0);
-    if (width > 0 && height > 0) {
-      currentDisplay = { width, height };
+  const handleMessage = (raw: RawData, isBinary: boolean): void => {
+    if (isBinary) {
+      const envelope = decodeEnvelope(raw as Buffer);
+      if (envelope?.header.channel === BINARY_CHANNEL_MIC) {
+        injectMicPacket(envelope.header, envelope.payload);
+      }
+      return;
     }
 
-    if (!image || image.length === 0) return;
-    if (ws.readyState !== WebSocket.OPEN) return;
-    if (ws.bufferedAmount > MAX_WS_BUFFERED_BYTES) return;
+    let message: unknown;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
 
-    ws.send(Buffer.from(image), { binary: true });
-  });
+    if ((message as { t?: unknown })?.t === "hello_ack") {
+      wsAttempt = 0;
+      return;
+    }
 
-  screenshotStream.on("error", (error) => {
-    console.error("gRPC screenshot stream error", error);
-    process.exit(1);
-  });
+    const frameQuality = frameQualityEnvelopeSchema.safeParse(message);
+    if (frameQuality.success) {
+      qualityMode = frameQuality.data.mode;
+      if (qualityMode !== "auto") setQualityLevel(FRAME_QUALITIES.findIndex((quality) => quality.name === qualityMode));
+      broadcastDisplays();
+      return;
+    }
 
-  screenshotStream.on("end", () => {
-    console.error("gRPC screenshot stream ended");
-    process.exit(1);
-  });
+    const sessionState = sessionStateEnvelopeSchema.safeParse(message);
+    if (sessionState.success) {
+      peerTiers = new Map(
+        sessionState.data.peers.filter((p) => p.role !== "agent").map((p) => [p.id, p.tier ?? "full"] as const),
+      );
+      syncScreenshotStreams();
+      return;
+    }
+
+    // Peers on the fixed tiers don't see the adaptive stream's losses.
+    const feedback = frameFeedbackEnvelopeSchema.safeParse(message);
+    if (feedback.success) {
+      const { received, dropped, peerId } = feedback.data;
+      if (received + dropped > 0 && (!peerId || (peerTiers.get(peerId) ?? "full") === "full")) {
+        worstFeedbackDropRatio = Math.max(worstFeedbackDropRatio, dropped / (received + dropped));
+      }
+      return;
+    }
+
+    const ping = pingEnvelopeSchema.safeParse(message);
+    if (ping.success) {
+      sendJson({ t: "pong", id: ping.data.id, peerId: ping.data.peerId });
+      return;
+    }
+
+    const clipboard = clipboardEnvelopeSchema.safeParse(message);
+    if (clipboard.success) {
+      const { action, text, peerId } = clipboard.data;
+      if (action === "set" && text !== undefined) {
+        enqueue(() => unaryWithMetadata("setClipboard", { text }));
+      }
+      if (action === "get") {
+        enqueue(async () => {
+          const clip = await unaryWithMetadata<{ text?: string }>("getClipboard", {});
+          sendJson({ t: "clipboard", action: "update", text: clip?.text ?? "", peerId });
+        });
+      }
+      return;
+    }
+
+    const controlEnvelope = controlEnvelopeSchema.safeParse(message);
+    if (!controlEnvelope.success) {
+      return;
+    }
+    const { ackId, peerId: senderPeerId } = controlEnvelope.data;
+    if (ackId !== undefined && senderPeerId) {
+      controlAck = { peerId: senderPeerId, ackId, receivedAt: performance.now() };
+    }
+    try {
+      handleControl(controlEnvelope.data);
+    } finally {
+      // Nothing was enqueued, e.g. an unmapped point or a throttled move.
+      if (controlAck) sendControlAck(controlAck);
+      controlAck = null;
+    }
+  };
+
+  // Access tokens are short-lived, so the agent token is exchanged before it
+  // expires. A rejected refresh (revoked, session gone) is left for the next
+  // hello to report; network errors are retried.
+  // A re-created session replaces the token, and with it any refresh due
+  // for the old one.
+  const scheduleTokenRefresh = (): void => {
+    if (tokenRefreshTimer) clearTimeout(tokenRefreshTimer);
+    const expiresAt = tokenExpiresAt(session.agentToken);
+    if (expiresAt === null) return;
+    const delay = Math.max(TOKEN_REFRESH_MIN_DELAY_MS, (expiresAt - Date.now()) / 2);
+    tokenRefreshTimer = setTimeout(() => {
+      const current = session.agentToken;
+      refreshToken(current)
+        .then((token) => {
+          if (session.agentToken !== current) return;
+          session.agentToken = token;
+          sendJson({ t: "token_update", token });
+          scheduleTokenRefresh();
+        })
+        .catch((error: Error & { status?: number }) => {
+          console.error("token refresh failed", error);
+          if (session.agentToken !== current) return;
+          if (error.status === undefined || error.status >= 500) {
+            tokenRefreshTimer = setTimeout(scheduleTokenRefresh, TOKEN_REFRESH_MIN_DELAY_MS);
+          }
+        });
+    }, delay);
+  };
+
+  // Signaling that can't be reached or fails is retried with backoff; a
+  // rejected create request ends the agent like a fatal close code.
+  const recreateSession = (): void => {
+    maybeCreateSession()
+      .then((created) => {
+        Object.assign(session, created);
+        console.log("signaling lost the session, created a new one");
+        printSession();
+        scheduleTokenRefresh();
+        connectSignaling();
+      })
+      .catch((error: Error & { status?: number }) => {
+        console.error("session re-create failed", error);
+        if (error.status !== undefined && error.status < 500) process.exit(1);
+        const delay = reconnectDelay(wsAttempt);
+        wsAttempt += 1;
+        setTimeout(recreateSession, delay);
+      });
+  };
+
+  // The current agent token is reused on every reconnect so browsers stay in
+  // their session; the attempt count resets only once hello is accepted.
+  const connectSignaling = (): void => {
+    const socket = new WebSocket(wsUrlFromBase(SIGNALING_BASE_URL));
+    ws = socket;
+
+    socket.on("open", () => {
+      socket.send(JSON.stringify({ t: "hello", token: session.agentToken }));
+      sendJson({ t: "agent_register", emulatorId: EMULATOR_ID, capabilities, health: health() });
+      sendJson({ t: "device_state", available: deviceAvailable });
+      broadcastDisplays();
+    });
+
+    socket.on("message", handleMessage);
+
+    socket.on("close", (code, reason) => {
+      console.error(`ws closed code=${code} reason=${reason.toString()}`);
+      resetControlState();
+      if (FATAL_CLOSE_CODES.has(code)) process.exit(1);
+      if (code === SESSION_NOT_FOUND_CLOSE_CODE) {
+        if (!AUTO_CREATE_SESSION) process.exit(1);
+        recreateSession();
+        return;
+      }
+      const delay = reconnectDelay(wsAttempt);
+      wsAttempt += 1;
+      console.log(`reconnecting to signaling in ${delay}ms`);
+      setTimeout(connectSignaling, delay);
+    });
+
+    socket.on("error", (err) => {
+      console.error("ws error", err);
+    });
+  };
+
+  // Restarts a server stream with backoff whenever it ends or fails, e.g.
+  // across an emulator restart, or can't be reopened. The attempt count
+  // resets once data flows.
+  const superviseStream = (
+    name: string,
+    open: () => grpc.ClientReadableStream<any> | Promise<grpc.ClientReadableStream<any>>,
+    onData: (data: any) => void,
+  ): void => {
+    let attempt = 0;
+    const scheduleRestart = (): void => {
+      const delay = reconnectDelay(attempt);
+      attempt += 1;
+      setTimeout(() => void refreshGrpcMetadata().then(start).catch(openFailed), delay);
+    };
+    const openFailed = (error: unknown): void => {
+      console.error(`gRPC ${name} stream open failed`, error);
+      scheduleRestart();
+    };
+    const start = async (): Promise<void> => {
+      const stream = await open();
+      stream.on("data", (data) => {
+        attempt = 0;
+        onData(data);
+      });
+      stream.on("error", (error) => {
+        console.error(`gRPC ${name} stream error`, error);
+        countGrpcError(name, error);
+      });
+      stream.on("status", scheduleRestart);
+    };
+    void start().catch(openFailed);
+  };
+
+  // Every clipboard change on the device, including ones made by browser
+  // pastes, is pushed to all browser peers.
+  superviseStream(
+    "streamClipboard",
+    () => grpcClient.streamClipboard({}, grpcMetadata),
+    (clip: any) => {
+      sendJson({ t: "clipboard", action: "update", text: String(clip?.text ?? "") });
+    },
+  );
+
+  // A reopened logcat stream resumes at the last `next` so browsers don't get
+  // the whole buffer again. An emulator that started at another time has a
+  // new buffer, which is read from the beginning.
+  let logcatNext = "0";
+  let logcatBootedAt: number | null = null;
+  superviseStream(
+    "streamLogcat",
+    async () => {
+      const status = await unaryWithMetadata<{ uptime?: string }>("getStatus", {}).catch(() => null);
+      const bootedAt = status ? Date.now() - Number(status.uptime ?? 0) : null;
+      if (bootedAt === null || logcatBootedAt === null || Math.abs(bootedAt - logcatBootedAt) > 5000) logcatNext = "0";
+      logcatBootedAt = bootedAt;
+      return grpcClient.streamLogcat({ sort: "Parsed", start: logcatNext }, grpcMetadata);
+    },
+    (log: any) => {
+      if (log?.next) logcatNext = String(log.next);
+      const entries = Array.isArray(log?.entries) ? log.entries : [];
+      if (entries.length === 0) return;
+      sendJson({
+        t: "logcat",
+        entries: entries.map((entry: any) => ({
+          timestamp: Number(entry.timestamp ?? 0),
+          pid: Number(entry.pid ?? 0),
+          tid: Number(entry.tid ?? 0),
+          level: String(entry.level ?? "UNKNOWN"),
+          tag: String(entry.tag ?? ""),
+          msg: String(entry.msg ?? ""),
+        })),
+      });
+    },
+  );
+
+  // Returns why the payload was dropped, or null once it is sent.
+  const sendBinary = (payload: Buffer): "disconnected" | "backpressure" | null => {
+    if (ws?.readyState !== WebSocket.OPEN) return "disconnected";
+    if (ws.bufferedAmount > MAX_WS_BUFFERED_BYTES) return "backpressure";
+    ws.send(payload, { binary: true });
+    return null;
+  };
+
+  if (AUDIO_ENABLED) {
+    let audioSeq = 0;
+
+    superviseStream(
+      "streamAudio",
+      () => grpcClient.streamAudio(audioRequest, grpcMetadata),
+      (packet: any) => {
+        const audio: Buffer = packet?.audio;
+        if (!audio || audio.length === 0) return;
+        audioSeq += 1;
+        sendBinary(
+          encodeEnvelope(
+            {
+              channel: BINARY_CHANNEL_AUDIO,
+              display: 0,
+              format: AUDIO_CHANNELS,
+              rotation: 0,
+              seq: audioSeq,
+              width: AUDIO_SAMPLE_RATE,
+              height: 0,
+              captureTimeMs: Number(packet?.timestamp ?? 0) / 1000 || Date.now(),
+              tier: 0,
+            },
+            audio,
+          ),
+        );
+      },
+    );
+  }
+
+  const broadcastDisplays = (): void => {
+    sendJson({
+      t: "displays",
+      displays: streamedDisplays.map((display) => {
+        const format = frameFormats.get(display.id);
+        return {
+          ...display,
+          width: format?.width ?? display.width,
+          height: format?.height ?? display.height,
+          rotation: format?.rotation ?? "PORTRAIT",
+        };
+      }),
+      quality: { mode: qualityMode, level: FRAME_QUALITIES[qualityLevel].name },
+    });
+  };
+
+  // Tiers some browser peer subscribed to; full while there are none, so the
+  // agent always knows the device's size and orientation.
+  const wantedTiers = (): Set<FrameTier> => new Set(peerTiers.size > 0 ? peerTiers.values() : ["full"]);
+
+  // Scaled streams need the display's unscaled size to scale from, so until a
+  // config or an unscaled frame gives it only an unscaled full stream runs.
+  const tiersFor = (display: number): Set<FrameTier> =>
+    displaySizes.has(display) ? wantedTiers() : new Set(["full"]);
+
+  // The best tier streamed is the one that reports display formats and
+  // device availability.
+  const primaryTier = (display: number): FrameTier => {
+    const tiers = tiersFor(display);
+    return FRAME_TIERS.find((tier) => tiers.has(tier)) ?? "full";
+  };
+
+  const isStreamWanted = (display: number, tier: FrameTier): boolean =>
+    streamedDisplays.some((info) => info.id === display) && tiersFor(display).has(tier);
+
+  // A failed stream is restarted with backoff for as long as its display and
+  // tier are still streamed; syncScreenshotStreams leaves it alone while a
+  // restart is due.
+  const scheduleScreenshotRestart = (display: number, tier: FrameTier): void => {
+    const key = streamKey(display, tier);
+    const attempt = screenshotAttempts.get(key) ?? 0;
+    screenshotAttempts.set(key, attempt + 1);
+    const delay = reconnectDelay(attempt);
+    console.log(`restarting screenshot stream display=${display} tier=${tier} in ${delay}ms`);
+    screenshotRestarts.set(
+      key,
+      setTimeout(() => {
+        refreshGrpcMetadata()
+          .then(() => {
+            screenshotRestarts.delete(key);
+            if (isStreamWanted(display, tier) && !screenshotStreams.has(key)) {
+              startScreenshotStream(display, tier);
+            }
+          })
+          .catch((error) => {
+            console.error(`restarting screenshot stream display=${display} tier=${tier} failed`, error);
+            screenshotRestarts.delete(key);
+            if (isStreamWanted(display, tier) && !screenshotStreams.has(key)) {
+              scheduleScreenshotRestart(display, tier);
+            }
+          });
+      }, delay),
+    );
+  };
+
+  const startScreenshotStream = (display: number, tier: FrameTier): void => {
+    const key = streamKey(display, tier);
+    const fullSize = displaySizes.get(display);
+    // Without a base size the stream is a provisional unscaled one, replaced
+    // by the wanted tiers once its first frame gives the size.
+    let provisional = !fullSize;
+    const quality = provisional
+      ? FRAME_QUALITIES[0]
+      : tier === "full"
+        ? FRAME_QUALITIES[qualityLevel]
+        : TIER_QUALITIES[tier];
+    const bound = scaledBound(quality, fullSize);
+    const screenshotStream = grpcClient.streamScreenshot(screenshotRequest(display, quality.format, bound), grpcMetadata);
+    screenshotStreams.set(key, screenshotStream);
+
+    screenshotStream.on("data", (frame: any) => {
+      screenshotAttempts.delete(key);
+      const primary = tier === primaryTier(display);
+      if (display === 0 && primary) setDeviceAvailable(true);
+
+      const image: Buffer = frame?.image;
+      const width = Number(frame?.format?.width ?? 0);
+      const height = Number(frame?.format?.height ?? 0);
+      const rotation = String(frame?.format?.rotation?.rotation ?? "PORTRAIT");
+      if (width > 0 && height > 0) {
+        if (!bound) {
+          displaySizes.set(display, isLandscape(rotation) ? { width: height, height: width } : { width, height });
+        }
+        if (provisional) {
+          provisional = false;
+          // Kept if it's already what the full tier would stream.
+          if (qualityLevel !== 0 || !wantedTiers().has("full")) {
+            screenshotStreams.delete(key);
+            screenshotStream.cancel();
+          }
+          syncScreenshotStreams();
+        }
+        const previous = frameFormats.get(display);
+        const changed =
+          !previous || previous.width !== width || previous.height !== height || previous.rotation !== rotation;
+        if (primary && changed) {
+          frameFormats.set(display, { width, height, rotation });
+          broadcastDisplays();
+        }
+      }
+
+      if (!image || image.length === 0) return;
+      framesReceived.inc({ display, tier });
+      // The emulator's seq is per stream and skips frames it dropped, so
+      // clients can count drops anywhere between the emulator and them.
+      const dropped = sendBinary(
+        encodeEnvelope(
+          {
+            channel: BINARY_CHANNEL_FRAME,
+            display,
+            format: Math.max(0, IMAGE_FORMATS.indexOf(quality.format)),
+            rotation: Math.max(0, ROTATIONS.indexOf(rotation)),
+            seq: Number(frame?.seq ?? 0),
+            width,
+            height,
+            captureTimeMs: Number(frame?.timestampUs ?? 0) / 1000 || Date.now(),
+            tier: FRAME_TIERS.indexOf(tier),
+          },
+          image,
+        ),
+      );
+      if (dropped) framesDropped.inc({ display, tier, reason: dropped });
+      else framesSent.inc({ display, tier });
+      if (dropped === "backpressure") backpressureDrops += 1;
+    });
+
+    screenshotStream.on("error", (error: grpc.ServiceError) => {
+      if (error.code === grpc.status.CANCELLED) return;
+      console.error(`gRPC screenshot stream error display=${display} tier=${tier}`, error);
+      countGrpcError("streamScreenshot", error);
+    });
+
+    // Streams cancelled on purpose are already out of the map.
+    screenshotStream.on("status", (status: grpc.StatusObject) => {
+      if (screenshotStreams.get(key) !== screenshotStream) return;
+      screenshotStreams.delete(key);
+      console.error(`gRPC screenshot stream ended display=${display} tier=${tier} code=${status.code}`);
+      if (display === 0 && tier === primaryTier(display)) setDeviceAvailable(false, status.details || "Screen stream ended");
+      scheduleScreenshotRestart(display, tier);
+    });
+  };
+
+  // Starts a stream for every streamed display and wanted tier, and cancels
+  // streams and pending restarts nobody wants any more.
+  const syncScreenshotStreams = (): void => {
+    const wanted = new Set<string>();
+    for (const display of streamedDisplays) {
+      for (const tier of tiersFor(display.id)) {
+        const key = streamKey(display.id, tier);
+        wanted.add(key);
+        if (!screenshotStreams.has(key) && !screenshotRestarts.has(key)) startScreenshotStream(display.id, tier);
+      }
+    }
+    for (const [key, timer] of screenshotRestarts) {
+      if (!wanted.has(key)) {
+        screenshotRestarts.delete(key);
+        screenshotAttempts.delete(key);
+        clearTimeout(timer);
+      }
+    }
+    for (const [key, stream] of screenshotStreams) {
+      if (!wanted.has(key)) {
+        screenshotStreams.delete(key);
+        stream.cancel();
+      }
+    }
+  };
+
+  // A running streamScreenshot can't be retuned, so the full tier's streams
+  // are restarted at the new level; displays waiting on a restart pick it up
+  // when they start.
+  const setQualityLevel = (level: number): void => {
+    if (level === qualityLevel) return;
+    console.log(`frame quality ${FRAME_QUALITIES[qualityLevel].name} -> ${FRAME_QUALITIES[level].name}`);
+    qualityLevel = level;
+    for (const display of streamedDisplays) {
+      const key = streamKey(display.id, "full");
+      const stream = screenshotStreams.get(key);
+      if (!stream) continue;
+      screenshotStreams.delete(key);
+      stream.cancel();
+      startScreenshotStream(display.id, "full");
+    }
+  };
+
+  // Steps one level down when frames were dropped for backpressure, the socket
+  // is half way to MAX_WS_BUFFERED_BYTES or a browser lost more than
+  // QUALITY_DROP_RATIO of its frames; steps back up after
+  // QUALITY_UPGRADE_AFTER_MS without any of those.
+  const adaptFrameQuality = (): void => {
+    const congested =
+      backpressureDrops > 0 ||
+      worstFeedbackDropRatio > QUALITY_DROP_RATIO ||
+      (ws?.bufferedAmount ?? 0) > MAX_WS_BUFFERED_BYTES / 2;
+    backpressureDrops = 0;
+    worstFeedbackDropRatio = 0;
+    const now = Date.now();
+    if (congested) lastCongestedAt = now;
+    if (qualityMode !== "auto") return;
+
+    if (congested && qualityLevel < FRAME_QUALITIES.length - 1) {
+      setQualityLevel(qualityLevel + 1);
+      broadcastDisplays();
+    } else if (!congested && qualityLevel > 0 && now - lastCongestedAt >= QUALITY_UPGRADE_AFTER_MS) {
+      lastCongestedAt = now;
+      setQualityLevel(qualityLevel - 1);
+      broadcastDisplays();
+    }
+  };
+
+  const refreshDisplays = async (): Promise<void> => {
+    let displays: DisplayInfo[] = [];
+    try {
+      const result = await unaryWithMetadata<{ displays?: any[] }>("getDisplayConfigurations", {});
+      displays = (result?.displays ?? []).map((config) => ({
+        id: Number(config.display ?? 0),
+        width: Number(config.width ?? 0),
+        height: Number(config.height ?? 0),
+        dpi: Number(config.dpi ?? 0),
+      }));
+    } catch {
+      // FAILED_PRECONDITION: the AVD has no configurable displays, only the primary.
+    }
+    if (!displays.some((display) => display.id === 0)) {
+      const primary = displaySizes.get(0);
+      displays.unshift({ id: 0, width: primary?.width ?? 0, height: primary?.height ?? 0, dpi: 0 });
+    }
+
+    const streamed = displays.filter((display) => !streamedDisplayIds || streamedDisplayIds.has(display.id));
+    // A configured size stands in until an unscaled frame reports the real one.
+    for (const display of streamed) {
+      if (display.width > 0 && display.height > 0 && !displaySizes.has(display.id)) {
+        displaySizes.set(display.id, { width: display.width, height: display.height });
+      }
+    }
+    for (const id of [...displaySizes.keys(), ...frameFormats.keys()]) {
+      if (!streamed.some((display) => display.id === id)) {
+        displaySizes.delete(id);
+        frameFormats.delete(id);
+      }
+    }
+
+    streamedDisplays = streamed;
+    syncScreenshotStreams();
+    broadcastDisplays();
+  };
+
+  connectSignaling();
+  await refreshDisplays();
+  setInterval(() => void refreshDisplays(), DISPLAY_POLL_INTERVAL_MS);
+  if (FRAME_QUALITY_ADAPTIVE) setInterval(adaptFrameQuality, QUALITY_ADAPT_INTERVAL_MS);
+  setInterval(() => sendJson({ t: "agent_heartbeat", health: health() }), AGENT_HEARTBEAT_INTERVAL_MS);
+  scheduleTokenRefresh();
+
+  if (METRICS_PORT > 0) {
+    const metricsServer = createServer((req, res) => {
+      if (req.url !== "/metrics") {
+        res.writeHead(404).end();
+        return;
+      }
+      metrics.metrics().then(
+        (body) => res.writeHead(200, { "Content-Type": metrics.contentType }).end(body),
+        (error) => res.writeHead(500).end(String(error)),
+      );
+    });
+    // A second agent on the same host just runs without metrics.
+    metricsServer.on("error", (error) => console.error("metrics server error", error));
+    metricsServer.listen(METRICS_PORT, () => console.log(`metrics: http://localhost:${METRICS_PORT}/metrics`));
+  }
 };
 
 main().catch((error) => {
@@ -1,41 +1,597 @@
 import cors from "cors";
 import express from "express";
+import { Redis } from "ioredis";
 import jwt from "jsonwebtoken";
 import { createServer } from "node:http";
-import { randomUUID } from "node:crypto";
-import { WebSocketServer, type WebSocket } from "ws";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
 import { z } from "zod";
 
 type Role = "agent" | "controller" | "viewer";
 
+// What a browser peer may do (control:*, clipboard:write, mic, lock) and
+// receive (view, logcat, clipboard:read). Agents are checked by role only.
+const SCOPES = [
+  "view",
+  "logcat",
+  "lock",
+  "clipboard:read",
+  "clipboard:write",
+  "mic",
+  "control:pointer",
+  "control:hover",
+  "control:wheel",
+  "control:key",
+  "control:nav",
+  "control:power",
+  "control:location",
+  "control:device",
+  "control:telephony",
+] as const;
+
+type Scope = (typeof SCOPES)[number];
+
+// Frame variants a browser peer can subscribe to; the agent marks each frame
+// with its tier's index in the envelope.
+const FRAME_TIERS = ["full", "reduced", "thumbnail"] as const;
+
+type FrameTier = (typeof FRAME_TIERS)[number];
+
 type TokenPayload = {
   sessionId: string;
   role: Role;
+  scopes: Scope[];
 };
 
-type Peer = {
-  id: string;
-  role: Role;
-  ws: WebSocket;
+// Claims of a verified token; jti and exp are always set by issueToken. fid
+// is the jti of the first token in a refresh chain and is carried over by
+// every refresh, so revoking it revokes the whole chain.
+type VerifiedToken = TokenPayload & {
+  jti: string;
+  fid: string;
+  exp: number;
+};
+
+// A browser waiting for the lock, oldest first in the queue.
+type LockRequest = {
+  peerId: string;
+  requestedAt: number;
 };
 
-type Session = {
+// Session metadata and lock ownership, shared by every signaling node
+// through the session store.
+type SessionRecord = {
   id: string;
   emulatorId: string;
   createdAt: number;
   expiresAt: number;
   lockOwnerPeerId: string | null;
+  lockQueue: LockRequest[];
+};
+
+// A peer as every node sees it; nodeId is the node holding its socket.
+type PeerInfo = {
+  id: string;
+  role: Role;
+  nodeId: string;
+  connected: boolean;
+  resumeToken: string;
+  jti: string;
+  fid: string;
+  scopes: Scope[];
+  tier: FrameTier;
+};
+
+type AgentHealth = {
+  deviceAvailable: boolean;
+  displays: number;
+  queueDepth: number;
+  uptimeSec: number;
+};
+
+// What the agent announced in agent_register, kept current by heartbeats.
+type AgentInfo = {
+  emulatorId: string;
+  capabilities: string[];
+  health: AgentHealth;
+  registeredAt: number;
+  lastHeartbeatAt: number;
+};
+
+// A browser peer whose socket drops stays in the session for the resume
+// grace period (graceTimer set) and can be reattached with resumeToken.
+// Sockets are node-local, so a Peer only exists on the node it connected to.
+type Peer = {
+  id: string;
+  role: Role;
+  ws: WebSocket;
+  resumeToken: string;
+  graceTimer: NodeJS.Timeout | null;
+  // Token the peer last presented, in hello or after a refresh.
+  jti: string;
+  fid: string;
+  scopes: Scope[];
+  tier: FrameTier;
+  // Last control, clipboard write or mic input, for idle lock release.
+  lastInputAt: number;
+  // Token bucket for annotation messages, refilled ANNOTATION_MAX_PER_SEC.
+  annotationBudget: number;
+  annotationBudgetAt: number;
+};
+
+// This node's view of a session: the record and peer list as last read
+// from the store or bus, plus the sockets attached here.
+type Session = SessionRecord & {
+  peerInfos: PeerInfo[];
   peers: Map<string, Peer>;
+  // When this node saw lockOwnerPeerId change, for idle and auto-grant timing.
+  lockOwnerSince: number;
+};
+
+// Messages fanned out between signaling nodes. Each node delivers them to
+// its own sockets and ignores the ones it published itself.
+type BusMessage = { origin: string; sessionId: string } & (
+  | { t: "relay"; roles: Role[]; payload: unknown }
+  | { t: "to_peer"; peerId: string; payload: unknown }
+  | { t: "session"; record: SessionRecord; peers: PeerInfo[] }
+  | { t: "disconnect"; peerId: string; code: number; reason: string }
+  | { t: "terminate"; code: number; reason: string }
+);
+
+type BusBinary = {
+  origin: string;
+  sessionId: string;
+  roles: Role[];
+  payload: Buffer;
+};
+
+type SessionStore = {
+  // False for a single-node store, where nothing needs to cross the bus.
+  shared: boolean;
+  createSession: (record: SessionRecord) => Promise<void>;
+  getSession: (sessionId: string) => Promise<SessionRecord | null>;
+  listSessions: () => Promise<SessionRecord[]>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  setExpiry: (sessionId: string, expiresAt: number) => Promise<void>;
+  // Sets the lock owner only if it is currently `expected`; all lock
+  // arbitration goes through this so two nodes can't both grant it. The new
+  // owner leaves the lock queue.
+  compareAndSetLock: (sessionId: string, expected: string | null, next: string | null) => Promise<boolean>;
+  // Queues a request unless the peer is already queued or owns the lock.
+  enqueueLockRequest: (sessionId: string, request: LockRequest) => Promise<void>;
+  dequeueLockRequest: (sessionId: string, peerId: string) => Promise<boolean>;
+  putPeer: (sessionId: string, peer: PeerInfo, expiresAt: number) => Promise<void>;
+  removePeer: (sessionId: string, peerId: string) => Promise<void>;
+  listPeers: (sessionId: string) => Promise<PeerInfo[]>;
+  putAgent: (sessionId: string, agent: AgentInfo, expiresAt: number) => Promise<void>;
+  getAgent: (sessionId: string) => Promise<AgentInfo | null>;
+  // Revoked token chains, by fid, are kept until the session would have
+  // expired anyway.
+  revokeToken: (fid: string, expiresAt: number) => Promise<void>;
+  isTokenRevoked: (fid: string) => Promise<boolean>;
+  // A node counts as alive for ttlMs after each heartbeat.
+  heartbeatNode: (nodeId: string, ttlMs: number) => Promise<void>;
+  isNodeAlive: (nodeId: string) => Promise<boolean>;
+  publish: (message: BusMessage) => Promise<void>;
+  publishBinary: (message: BusBinary) => Promise<void>;
+  subscribe: (onMessage: (message: BusMessage) => void, onBinary: (message: BusBinary) => void) => Promise<void>;
 };
 
 const PORT = Number(process.env.PORT ?? 8787);
 const WEB_ORIGIN = process.env.WEB_ORIGIN ?? "http://localhost:5173";
 const SESSION_SIGNING_KEY = process.env.SESSION_SIGNING_KEY ?? "dev-only-secret";
 const SESSION_DEFAULT_TTL_SEC = Number(process.env.SESSION_DEFAULT_TTL_SEC ?? 3600);
+const ACCESS_TOKEN_TTL_SEC = Number(process.env.ACCESS_TOKEN_TTL_SEC ?? 900);
 const MAX_WS_BUFFERED_BYTES = Number(process.env.MAX_WS_BUFFERED_BYTES ?? 2_000_000);
+const MAX_CLIPBOARD_CHARS = Number(process.env.MAX_CLIPBOARD_CHARS ?? 65_536);
+const PEER_RESUME_GRACE_MS = Number(process.env.PEER_RESUME_GRACE_MS ?? 15_000);
+const SESSION_STORE = (process.env.SESSION_STORE ?? "memory").toLowerCase();
+const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
+const REDIS_KEY_PREFIX = process.env.REDIS_KEY_PREFIX ?? "mirror:";
+const NODE_ID = process.env.NODE_ID ?? randomUUID();
+const AGENT_HEARTBEAT_TIMEOUT_MS = Number(process.env.AGENT_HEARTBEAT_TIMEOUT_MS ?? 30_000);
+const NODE_HEARTBEAT_TTL_MS = Number(process.env.NODE_HEARTBEAT_TTL_MS ?? 15_000);
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY ?? "";
+// Read-only key for the session directory, so dashboards don't need the admin key.
+const DIRECTORY_API_KEY = process.env.DIRECTORY_API_KEY ?? "";
+const LOCK_IDLE_RELEASE_SEC = Number(process.env.LOCK_IDLE_RELEASE_SEC ?? 0);
+const LOCK_AUTO_GRANT_SEC = Number(process.env.LOCK_AUTO_GRANT_SEC ?? 0);
+const ANNOTATION_MAX_PER_SEC = Number(process.env.ANNOTATION_MAX_PER_SEC ?? 30);
+
+// Binary messages use the agent's versioned envelope. Signaling only reads
+// the version, channel and frame tier bytes; the rest of the header is
+// passed through.
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_MIN_HEADER_BYTES = 32;
+const ENVELOPE_TIER_OFFSET = 28;
+const BINARY_CHANNEL_FRAME = 0x01;
+const BINARY_CHANNEL_AUDIO = 0x02;
+const BINARY_CHANNEL_MIC = 0x03;
+
+const BROWSER_ROLES: Role[] = ["controller", "viewer"];
+const ROLES: Role[] = ["agent", "controller", "viewer"];
+
+// Scopes of tokens minted without an explicit list. Viewers can take the
+// lock and control the device like controllers, except for telephony.
+const DEFAULT_SCOPES: Record<Role, Scope[]> = {
+  agent: [],
+  controller: [...SCOPES],
+  viewer: SCOPES.filter((scope) => scope !== "control:telephony"),
+};
+
+const scopeSchema = z.enum(SCOPES);
+
+const createMemoryStore = (): SessionStore => {
+  const records = new Map<string, SessionRecord>();
+  const peers = new Map<string, Map<string, PeerInfo>>();
+  const agents = new Map<string, AgentInfo>();
+  const revokedTokens = new Map<string, number>();
+  const nodes = new Map<string, number>();
+
+  return {
+    shared: false,
+    createSession: async (record) => {
+      records.set(record.id, { ...record });
+    },
+    getSession: async (sessionId) => {
+      const record = records.get(sessionId);
+      return record ? { ...record } : null;
+    },
+    listSessions: async () => [...records.values()].map((record) => ({ ...record })),
+    deleteSession: async (sessionId) => {
+      records.delete(sessionId);
+      peers.delete(sessionId);
+      agents.delete(sessionId);
+    },
+    setExpiry: async (sessionId, expiresAt) => {
+      const record = records.get(sessionId);
+      if (record) record.expiresAt = expiresAt;
+    },
+    // Queues are replaced, never mutated, since getSession copies shallowly.
+    compareAndSetLock: async (sessionId, expected, next) => {
+      const record = records.get(sessionId);
+      if (!record || record.lockOwnerPeerId !== expected) return false;
+      record.lockOwnerPeerId = next;
+      record.lockQueue = record.lockQueue.filter((r) => r.peerId !== next);
+      return true;
+    },
+    enqueueLockRequest: async (sessionId, request) => {
+      const record = records.get(sessionId);
+      if (!record || record.lockOwnerPeerId === request.peerId) return;
+      if (record.lockQueue.some((r) => r.peerId === request.peerId)) return;
+      record.lockQueue = [...record.lockQueue, request];
+    },
+    dequeueLockRequest: async (sessionId, peerId) => {
+      const record = records.get(sessionId);
+      if (!record?.lockQueue.some((r) => r.peerId === peerId)) return false;
+      record.lockQueue = record.lockQueue.filter((r) => r.peerId !== peerId);
+      return true;
+    },
+    putPeer: async (sessionId, peer) => {
+      const sessionPeers = peers.get(sessionId) ?? new Map<string, PeerInfo>();
+      sessionPeers.set(peer.id, { ...peer });
+      peers.set(sessionId, sessionPeers);
+    },
+    removePeer: async (sessionId, peerId) => {
+      peers.get(sessionId)?.delete(peerId);
+    },
+    listPeers: async (sessionId) => [...(peers.get(sessionId)?.values() ?? [])].map((peer) => ({ ...peer })),
+    putAgent: async (sessionId, agent) => {
+      agents.set(sessionId, structuredClone(agent));
+    },
+    getAgent: async (sessionId) => {
+      const agent = agents.get(sessionId);
+      return agent ? structuredClone(agent) : null;
+    },
+    revokeToken: async (fid, expiresAt) => {
+      revokedTokens.set(fid, expiresAt);
+    },
+    isTokenRevoked: async (fid) => {
+      const expiresAt = revokedTokens.get(fid);
+      if (expiresAt !== undefined && Date.now() > expiresAt) revokedTokens.delete(fid);
+      return revokedTokens.has(fid);
+    },
+    heartbeatNode: async (nodeId, ttlMs) => {
+      nodes.set(nodeId, Date.now() + ttlMs);
+    },
+    isNodeAlive: async (nodeId) => Date.now() <= (nodes.get(nodeId) ?? 0),
+    publish: async () => {},
+    publishBinary: async () => {},
+    subscribe: async () => {},
+  };
+};
+
+// HGET yields false for a missing field, so an empty string stands for "no
+// owner". The queue is a JSON array in the lockQueue field; cjson encodes an
+// empty table as {}, which getSession reads back as an empty queue.
+const COMPARE_AND_SET_LOCK_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+local owner = redis.call("HGET", KEYS[1], "lockOwnerPeerId") or ""
+if owner ~= ARGV[1] then return 0 end
+redis.call("HSET", KEYS[1], "lockOwnerPeerId", ARGV[2])
+if ARGV[2] ~= "" then
+  local kept = {}
+  for _, entry in ipairs(cjson.decode(redis.call("HGET", KEYS[1], "lockQueue") or "[]")) do
+    if entry.peerId ~= ARGV[2] then table.insert(kept, entry) end
+  end
+  redis.call("HSET", KEYS[1], "lockQueue", cjson.encode(kept))
+end
+return 1
+`;
+
+// ARGV[2] is the request time to enqueue, or "" to dequeue ARGV[1].
+const UPDATE_LOCK_QUEUE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+local kept = {}
+local found = false
+for _, entry in ipairs(cjson.decode(redis.call("HGET", KEYS[1], "lockQueue") or "[]")) do
+  if entry.peerId == ARGV[1] then found = true else table.insert(kept, entry) end
+end
+if ARGV[2] == "" then
+  if not found then return 0 end
+else
+  if found or redis.call("HGET", KEYS[1], "lockOwnerPeerId") == ARGV[1] then return 0 end
+  table.insert(kept, { peerId = ARGV[1], requestedAt = tonumber(ARGV[2]) })
+end
+redis.call("HSET", KEYS[1], "lockQueue", cjson.encode(kept))
+return 1
+`;
+
+// Works with any Redis-protocol server (Redis, Valkey, KeyDB). Keys expire
+// with their session, and a second connection is used for subscriptions
+// because a subscribed connection can't issue other commands.
+const createRedisStore = (url: string, prefix: string): SessionStore => {
+  const redis = new Redis(url);
+  const subscriber = new Redis(url);
+  redis.on("error", (error) => console.error("redis error", error));
+  subscriber.on("error", (error) => console.error("redis subscriber error", error));
+
+  const sessionKey = (sessionId: string) => `${prefix}session:${sessionId}`;
+  const peersKey = (sessionId: string) => `${prefix}session:${sessionId}:peers`;
+  const agentKey = (sessionId: string) => `${prefix}session:${sessionId}:agent`;
+  const revokedKey = (fid: string) => `${prefix}revoked:${fid}`;
+  const nodeKey = (nodeId: string) => `${prefix}node:${nodeId}`;
+  const indexKey = `${prefix}sessions`;
+  const busChannel = `${prefix}bus`;
+  const binaryChannel = `${prefix}bus:binary`;
+
+  const parseLockQueue = (value: string | undefined): LockRequest[] => {
+    const parsed: unknown = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? (parsed as LockRequest[]) : [];
+  };
+
+  const getSession = async (sessionId: string): Promise<SessionRecord | null> => {
+    const hash = await redis.hgetall(sessionKey(sessionId));
+    if (!hash.expiresAt) return null;
+    return {
+      id: sessionId,
+      emulatorId: hash.emulatorId ?? "",
+      createdAt: Number(hash.createdAt),
+      expiresAt: Number(hash.expiresAt),
+      lockOwnerPeerId: hash.lockOwnerPeerId || null,
+      lockQueue: parseLockQueue(hash.lockQueue),
+    };
+  };
+
+  // Binary layout: u16 origin length, origin, u16 session id length, session
+  // id (lengths little endian, so a configured NODE_ID of any length fits),
+  // u8 role bitmask (ROLES order), then the envelope as relayed.
+  const encodeBinary = (message: BusBinary): Buffer => {
+    const origin = Buffer.from(message.origin);
+    const sessionId = Buffer.from(message.sessionId);
+    const roleMask = ROLES.reduce((mask, role, i) => (message.roles.includes(role) ? mask | (1 << i) : mask), 0);
+    const header = Buffer.alloc(2 + origin.length + 2 + sessionId.length + 1);
+    header.writeUInt16LE(origin.length, 0);
+    origin.copy(header, 2);
+    header.writeUInt16LE(sessionId.length, 2 + origin.length);
+    sessionId.copy(header, 4 + origin.length);
+    header.writeUInt8(roleMask, header.length - 1);
+    return Buffer.concat([header, message.payload]);
+  };
+
+  const decodeBinary = (data: Buffer): BusBinary => {
+    const originEnd = 2 + data.readUInt16LE(0);
+    const sessionIdEnd = originEnd + 2 + data.readUInt16LE(originEnd);
+    const roleMask = data[sessionIdEnd];
+    return {
+      origin: data.subarray(2, originEnd).toString(),
+      sessionId: data.subarray(originEnd + 2, sessionIdEnd).toString(),
+      roles: ROLES.filter((_role, i) => roleMask & (1 << i)),
+      payload: data.subarray(sessionIdEnd + 1),
+    };
+  };
+
+  return {
+    shared: true,
+    createSession: async (record) => {
+      await redis
+        .multi()
+        .hset(sessionKey(record.id), {
+          emulatorId: record.emulatorId,
+          createdAt: String(record.createdAt),
+          expiresAt: String(record.expiresAt),
+          lockOwnerPeerId: record.lockOwnerPeerId ?? "",
+          lockQueue: JSON.stringify(record.lockQueue),
+        })
+        .pexpireat(sessionKey(record.id), record.expiresAt)
+        .sadd(indexKey, record.id)
+        .exec();
+    },
+    getSession,
+    // The index isn't expired with the sessions, so stale ids are pruned here.
+    listSessions: async () => {
+      const ids = await redis.smembers(indexKey);
+      const records = await Promise.all(ids.map(getSession));
+      const stale = ids.filter((_id, i) => !records[i]);
+      if (stale.length > 0) await redis.srem(indexKey, ...stale);
+      return records.filter((record): record is SessionRecord => record !== null);
+    },
+    deleteSession: async (sessionId) => {
+      await redis.multi().del(sessionKey(sessionId), peersKey(sessionId), agentKey(sessionId)).srem(indexKey, sessionId).exec();
+    },
+    setExpiry: async (sessionId, expiresAt) => {
+      await redis
+        .multi()
+        .hset(sessionKey(sessionId), "expiresAt", String(expiresAt))
+        .pexpireat(sessionKey(sessionId), expiresAt)
+        .pexpireat(peersKey(sessionId), expiresAt)
+        .pexpireat(agentKey(sessionId), expiresAt)
+        .exec();
+    },
+    compareAndSetLock: async (sessionId, expected, next) => {
+      const result = await redis.eval(COMPARE_AND_SET_LOCK_SCRIPT, 1, sessionKey(sessionId), expected ?? "", next ?? "");
+      return result === 1;
+    },
+    enqueueLockRequest: async (sessionId, request) => {
+      await redis.eval(UPDATE_LOCK_QUEUE_SCRIPT, 1, sessionKey(sessionId), request.peerId, String(request.requestedAt));
+    },
+    dequeueLockRequest: async (sessionId, peerId) => {
+      return (await redis.eval(UPDATE_LOCK_QUEUE_SCRIPT, 1, sessionKey(sessionId), peerId, "")) === 1;
+    },
+    putPeer: async (sessionId, peer, expiresAt) => {
+      await redis
+        .multi()
+        .hset(peersKey(sessionId), peer.id, JSON.stringify(peer))
+        .pexpireat(peersKey(sessionId), expiresAt)
+        .exec();
+    },
+    removePeer: async (sessionId, peerId) => {
+      await redis.hdel(peersKey(sessionId), peerId);
+    },
+    listPeers: async (sessionId) => {
+      const hash = await redis.hgetall(peersKey(sessionId));
+      return Object.values(hash).map((value) => JSON.parse(value) as PeerInfo);
+    },
+    putAgent: async (sessionId, agent, expiresAt) => {
+      await redis.multi().set(agentKey(sessionId), JSON.stringify(agent)).pexpireat(agentKey(sessionId), expiresAt).exec();
+    },
+    getAgent: async (sessionId) => {
+      const value = await redis.get(agentKey(sessionId));
+      return value ? (JSON.parse(value) as AgentInfo) : null;
+    },
+    revokeToken: async (fid, expiresAt) => {
+      await redis.multi().set(revokedKey(fid), "1").pexpireat(revokedKey(fid), expiresAt).exec();
+    },
+    isTokenRevoked: async (fid) => (await redis.exists(revokedKey(fid))) === 1,
+    heartbeatNode: async (nodeId, ttlMs) => {
+      await redis.set(nodeKey(nodeId), "1", "PX", ttlMs);
+    },
+    isNodeAlive: async (nodeId) => (await redis.exists(nodeKey(nodeId))) === 1,
+    publish: async (message) => {
+      await redis.publish(busChannel, JSON.stringify(message));
+    },
+    publishBinary: async (message) => {
+      await redis.publish(binaryChannel, encodeBinary(message));
+    },
+    subscribe: async (onMessage, onBinary) => {
+      subscriber.on("messageBuffer", (channel: Buffer, data: Buffer) => {
+        const name = channel.toString();
+        if (name === busChannel) onMessage(JSON.parse(data.toString()) as BusMessage);
+        if (name === binaryChannel) onBinary(decodeBinary(data));
+      });
+      await subscriber.subscribe(busChannel, binaryChannel);
+    },
+  };
+};
+
+const store = SESSION_STORE === "redis" ? createRedisStore(REDIS_URL, REDIS_KEY_PREFIX) : createMemoryStore();
 
+// Node-local cache of sessions with sockets on this node; the store is the
+// source of truth and the bus keeps the cache current.
 const sessions = new Map<string, Session>();
 
+// Metrics describe this node only: its sockets, and the lock changes and
+// hellos it handled. Per-peer series are removed when the peer leaves.
+const metrics = new Registry();
+collectDefaultMetrics({ register: metrics, labels: { node_id: NODE_ID } });
+
+const BINARY_CHANNEL_NAMES: Record<number, string> = {
+  [BINARY_CHANNEL_FRAME]: "frame",
+  [BINARY_CHANNEL_AUDIO]: "audio",
+  [BINARY_CHANNEL_MIC]: "mic",
+};
+const DROP_REASONS = ["backpressure", "closed"] as const;
+
+const binaryRelayed = new Counter({
+  name: "signaling_binary_relayed_total",
+  help: "Binary envelopes written to a peer's socket",
+  labelNames: ["peer_id", "role", "channel"],
+  registers: [metrics],
+});
+const binaryDropped = new Counter({
+  name: "signaling_binary_dropped_total",
+  help: "Binary envelopes not written to a peer's socket, by reason (backpressure is MAX_WS_BUFFERED_BYTES)",
+  labelNames: ["peer_id", "role", "channel", "reason"],
+  registers: [metrics],
+});
+const controlMessages = new Counter({
+  name: "signaling_control_messages_total",
+  help: "Control events from browsers by event type and outcome",
+  labelNames: ["type", "outcome"],
+  registers: [metrics],
+});
+const lockChanges = new Counter({
+  name: "signaling_lock_changes_total",
+  help: "Lock owner changes made by this node",
+  labelNames: ["reason"],
+  registers: [metrics],
+});
+const helloDuration = new Histogram({
+  name: "signaling_hello_duration_seconds",
+  help: "Time from receiving hello to sending hello_ack",
+  labelNames: ["role"],
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metrics],
+});
+new Gauge({
+  name: "signaling_local_sessions",
+  help: "Sessions with at least one socket on this node",
+  registers: [metrics],
+  collect() {
+    this.set(sessions.size);
+  },
+});
+new Gauge({
+  name: "signaling_local_peers",
+  help: "Peers attached to this node, including those inside the resume grace period",
+  labelNames: ["role"],
+  registers: [metrics],
+  collect() {
+    for (const role of ROLES) {
+      let count = 0;
+      for (const session of sessions.values()) {
+        for (const peer of session.peers.values()) if (peer.role === role) count += 1;
+      }
+      this.set({ role }, count);
+    }
+  },
+});
+
+const forgetPeerMetrics = (peer: Peer): void => {
+  for (const channel of Object.values(BINARY_CHANNEL_NAMES)) {
+    binaryRelayed.remove({ peer_id: peer.id, role: peer.role, channel });
+    for (const reason of DROP_REASONS) {
+      binaryDropped.remove({ peer_id: peer.id, role: peer.role, channel, reason });
+    }
+  }
+};
+
+type LockChangeReason = "hello" | "request" | "approve" | "release" | "leave" | "idle" | "auto_grant" | "admin";
+
+// All lock changes go through here so each is counted once, by the node
+// that made it.
+const setLockOwner = async (
+  sessionId: string,
+  expected: string | null,
+  next: string | null,
+  reason: LockChangeReason,
+): Promise<boolean> => {
+  const changed = await store.compareAndSetLock(sessionId, expected, next);
+  if (changed && expected !== next) lockChanges.inc({ reason });
+  return changed;
+};
+
 const app = express();
 app.use(cors());
 app.use(express.json());
@@ -43,17 +599,50 @@ app.use(express.json());
 const createSessionBodySchema = z.object({
   emulatorId: z.string().min(1).optional(),
   expiresInSec: z.number().int().min(60).max(24 * 3600).optional(),
+  scopes: z
+    .object({
+      controller: z.array(scopeSchema).optional(),
+      viewer: z.array(scopeSchema).optional(),
+    })
+    .optional(),
 });
 
-const issueToken = (sessionId: string, role: Role, expiresInSec: number): string => {
-  return jwt.sign({ sessionId, role } satisfies TokenPayload, SESSION_SIGNING_KEY, {
-    expiresIn: expiresInSec,
+// Tokens live at most ACCESS_TOKEN_TTL_SEC, and never past the session,
+// then get exchanged at /api/tokens/refresh, which passes the chain's fid on.
+const issueToken = (
+  sessionId: string,
+  role: Role,
+  sessionRemainingSec: number,
+  scopes: Scope[] = DEFAULT_SCOPES[role],
+  fid?: string,
+): string => {
+  const jti = randomUUID();
+  const payload = { sessionId, role, scopes: [...new Set(scopes)], fid: fid ?? jti };
+  return jwt.sign(payload satisfies TokenPayload & { fid: string }, SESSION_SIGNING_KEY, {
+    expiresIn: Math.min(sessionRemainingSec, ACCESS_TOKEN_TTL_SEC),
+    jwtid: jti,
     issuer: "android-browser-mirror-poc",
     audience: "local-dev",
   });
 };
 
-app.post("/api/dev/sessions", (req, res) => {
+const verifyToken = (token: string): VerifiedToken | null => {
+  try {
+    const decoded = jwt.verify(token, SESSION_SIGNING_KEY, {
+      issuer: "android-browser-mirror-poc",
+      audience: "local-dev",
+    }) as Partial<VerifiedToken>;
+    if (!decoded.jti || !decoded.role) return null;
+    // Tokens minted before scopes existed get their role's defaults, and
+    // before refresh chains, start their own.
+    const scopes = z.array(scopeSchema).safeParse(decoded.scopes ?? DEFAULT_SCOPES[decoded.role]);
+    return scopes.success ? ({ ...decoded, fid: decoded.fid ?? decoded.jti, scopes: scopes.data } as VerifiedToken) : null;
+  } catch {
+    return null;
+  }
+};
+
+app.post("/api/dev/sessions", async (req, res) => {
   const parsed = createSessionBodySchema.safeParse(req.body ?? {});
   if (!parsed.success) {
     return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
@@ -64,25 +653,31 @@ app.post("/api/dev/sessions", (req, res) => {
   const expiresInSec = parsed.data.expiresInSec ?? SESSION_DEFAULT_TTL_SEC;
   const now = Date.now();
 
-  const session: Session = {
+  const record: SessionRecord = {
     id: sessionId,
     emulatorId,
     createdAt: now,
     expiresAt: now + expiresInSec * 1000,
     lockOwnerPeerId: null,
-    peers: new Map(),
+    lockQueue: [],
   };
 
-  sessions.set(sessionId, session);
+  try {
+    await store.createSession(record);
+  } catch (error) {
+    console.error("session store error", error);
+    return res.status(503).json({ error: "Session store unavailable" });
+  }
 
-  const controllerToken = issueToken(sessionId, "controller", expiresInSec);
-  const viewerToken = issueToken(sessionId, "viewer", expiresInSec);
+  const { scopes } = parsed.data;
+  const controllerToken = issueToken(sessionId, "controller", expiresInSec, scopes?.controller);
+  const viewerToken = issueToken(sessionId, "viewer", expiresInSec, scopes?.viewer);
   const agentToken = issueToken(sessionId, "agent", expiresInSec);
 
   return res.status(201).json({
     sessionId,
     emulatorId,
-    expiresAt: new Date(session.expiresAt).toISOString(),
+    expiresAt: new Date(record.expiresAt).toISOString(),
     joinUrlController: `${WEB_ORIGIN}?sessionId=${sessionId}&token=${encodeURIComponent(controllerToken)}`,
     joinUrlViewer: `${WEB_ORIGIN}?sessionId=${sessionId}&token=${encodeURIComponent(viewerToken)}`,
     controllerToken,
@@ -91,20 +686,175 @@ app.post("/api/dev/sessions", (req, res) => {
   });
 });
 
-app.get("/api/dev/health", (_req, res) => {
+// Admin endpoints authenticate with ADMIN_API_KEY as a bearer token, never
+// with a session JWT, and are disabled while it is unset.
+// Accepts any of the given keys as a bearer credential. With none of them
+// configured the endpoints are off, and say which setting turns them on.
+const requireKey = (keys: string[], disabledError: string): express.RequestHandler => {
+  const expected = keys.filter(Boolean).map((key) => Buffer.from(key));
+  return (req, res, next) => {
+    if (expected.length === 0) {
+      res.status(403).json({ error: disabledError });
+      return;
+    }
+    const given = Buffer.from((req.get("authorization") ?? "").replace(/^Bearer /, ""));
+    if (!expected.some((key) => given.length === key.length && timingSafeEqual(given, key))) {
+      res.status(401).json({ error: "Credential required" });
+      return;
+    }
+    next();
+  };
+};
+
+const requireAdmin = requireKey([ADMIN_API_KEY], "Admin API disabled: set ADMIN_API_KEY on signaling");
+const requireDirectory = requireKey(
+  [ADMIN_API_KEY, DIRECTORY_API_KEY],
+  "Session directory disabled: set DIRECTORY_API_KEY or ADMIN_API_KEY on signaling",
+);
+
+// Directory of live sessions for dashboards, readable with the directory or
+// admin key. It lists no tokens; joining goes through
+// POST /api/dev/sessions/:sessionId/join, which stays admin-only since anyone
+// reaching it could mint themselves back into a session after being revoked
+// or kicked.
+app.get("/api/sessions", requireDirectory, async (_req, res) => {
+  const now = Date.now();
+
+  try {
+    const records = (await store.listSessions()).filter((record) => record.expiresAt > now);
+    const entries = await Promise.all(
+      records.map(async (record) => {
+        const [peerInfos, agent] = await Promise.all([store.listPeers(record.id), store.getAgent(record.id)]);
+        const countRole = (role: Role) => peerInfos.filter((p) => p.role === role && p.connected).length;
+        const agentConnected = countRole("agent") > 0;
+        return {
+          sessionId: record.id,
+          emulatorId: record.emulatorId,
+          createdAt: new Date(record.createdAt).toISOString(),
+          expiresAt: new Date(record.expiresAt).toISOString(),
+          lockOwnerPeerId: record.lockOwnerPeerId,
+          peers: {
+            agent: countRole("agent"),
+            controller: countRole("controller"),
+            viewer: countRole("viewer"),
+          },
+          agent: agent && {
+            emulatorId: agent.emulatorId,
+            capabilities: agent.capabilities,
+            health: agent.health,
+            registeredAt: new Date(agent.registeredAt).toISOString(),
+            lastHeartbeatAt: new Date(agent.lastHeartbeatAt).toISOString(),
+            online: agentConnected && now - agent.lastHeartbeatAt <= AGENT_HEARTBEAT_TIMEOUT_MS,
+          },
+        };
+      }),
+    );
+    return res.json({ sessions: entries });
+  } catch (error) {
+    console.error("session store error", error);
+    return res.status(503).json({ error: "Session store unavailable" });
+  }
+});
+
+const joinSessionBodySchema = z.object({
+  role: z.enum(["controller", "viewer"]),
+  scopes: z.array(scopeSchema).optional(),
+});
+
+// Mints a browser token for an existing session, with the usual
+// ACCESS_TOKEN_TTL_SEC lifetime; it starts a new refresh chain.
+app.post("/api/dev/sessions/:sessionId/join", requireAdmin, async (req, res) => {
+  const parsed = joinSessionBodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+  }
+
+  let record: SessionRecord | null;
+  try {
+    record = await store.getSession(String(req.params.sessionId));
+  } catch (error) {
+    console.error("session store error", error);
+    return res.status(503).json({ error: "Session store unavailable" });
+  }
+
+  const expiresInSec = record ? Math.floor((record.expiresAt - Date.now()) / 1000) : 0;
+  if (!record || expiresInSec <= 0) {
+    return res.status(404).json({ error: "Session not found" });
+  }
+
+  const scopes = parsed.data.scopes ?? DEFAULT_SCOPES[parsed.data.role];
+  const token = issueToken(record.id, parsed.data.role, expiresInSec, scopes);
+  return res.status(201).json({
+    sessionId: record.id,
+    role: parsed.data.role,
+    scopes,
+    token,
+    joinUrl: `${WEB_ORIGIN}?sessionId=${record.id}&token=${encodeURIComponent(token)}`,
+  });
+});
+
+const refreshTokenBodySchema = z.object({
+  token: z.string().min(1),
+});
+
+// Exchanges a still-valid, unrevoked token for a fresh one with the same
+// session, role and fid while the session is alive. The old token stays valid
+// until it expires; revoking the fid stops both.
+app.post("/api/tokens/refresh", async (req, res) => {
+  const parsed = refreshTokenBodySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+  }
+
+  const decoded = verifyToken(parsed.data.token);
+  if (!decoded) {
+    return res.status(401).json({ error: "Invalid token" });
+  }
+
+  try {
+    if (await store.isTokenRevoked(decoded.fid)) {
+      return res.status(401).json({ error: "Token revoked" });
+    }
+    const record = await store.getSession(decoded.sessionId);
+    const remainingSec = record ? Math.floor((record.expiresAt - Date.now()) / 1000) : 0;
+    if (!record || remainingSec <= 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const token = issueToken(record.id, decoded.role, remainingSec, decoded.scopes, decoded.fid);
+    const { exp } = jwt.decode(token) as VerifiedToken;
+    return res.json({ token, expiresAt: new Date(exp * 1000).toISOString() });
+  } catch (error) {
+    console.error("session store error", error);
+    return res.status(503).json({ error: "Session store unavailable" });
+  }
+});
+
+app.get("/metrics", async (_req, res) => {
+  res.type(metrics.contentType).send(await metrics.metrics());
+});
+
+app.get("/api/dev/health", async (_req, res) => {
   const now = Date.now();
   let activeSessions = 0;
   let activePeers = 0;
 
-  for (const session of sessions.values()) {
-    if (session.expiresAt > now) {
-      activeSessions += 1;
-      activePeers += session.peers.size;
+  try {
+    for (const record of await store.listSessions()) {
+      if (record.expiresAt > now) {
+        activeSessions += 1;
+        activePeers += (await store.listPeers(record.id)).length;
+      }
     }
+  } catch (error) {
+    console.error("session store error", error);
+    return res.status(503).json({ ok: false, error: "Session store unavailable" });
   }
 
-  res.json({
+  return res.json({
     ok: true,
+    nodeId: NODE_ID,
+    store: SESSION_STORE,
     activeSessions,
     activePeers,
     timestamp: new Date(now).toISOString(),
@@ -117,6 +867,21 @@ const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
 const helloSchema = z.object({
   t: z.literal("hello"),
   token: z.string().min(1),
+  resumeToken: z.string().min(1).optional(),
+  tier: z.enum(FRAME_TIERS).optional(),
+});
+
+// Sent after a refresh so the peer entry names the token now in use; only a
+// token from the same chain is accepted.
+const tokenUpdateSchema = z.object({
+  t: z.literal("token_update"),
+  token: z.string().min(1),
+});
+
+// Switches the frame tier a browser peer receives.
+const frameTierSchema = z.object({
+  t: z.literal("frame_tier"),
+  tier: z.enum(FRAME_TIERS),
 });
 
 const signalSchema = z.object({
@@ -124,14 +889,163 @@ const signalSchema = z.object({
   payload: z.unknown(),
 });
 
+// ackId is passed through so the agent can acknowledge the event once the
+// emulator call has completed.
 const controlSchema = z.object({
   t: z.literal("control"),
   event: z.unknown(),
+  ackId: z.number().int().optional(),
+});
+
+const controlEventTypeSchema = z.object({
+  type: z.string(),
+  action: z.unknown(),
 });
 
+// Power off is split from the other nav buttons so a token can navigate
+// without being able to turn the device off.
+const controlEventScope = (event: { type: string; action?: unknown }): Scope | null => {
+  if (event.type === "nav" && event.action === "power") return "control:power";
+  const scope = `control:${event.type}`;
+  return (SCOPES as readonly string[]).includes(scope) ? (scope as Scope) : null;
+};
+
+// Messages browsers only receive with the matching scope.
+const RECEIVE_SCOPES: Record<string, Scope> = {
+  displays: "view",
+  logcat: "logcat",
+  clipboard: "clipboard:read",
+};
+
+// Agent replies to a single control event or ping, addressed to the peer that
+// sent it.
+const controlResultSchema = z
+  .object({
+    t: z.enum(["control_result", "control_ack", "pong"]),
+    peerId: z.string(),
+  })
+  .passthrough();
+
+// Browsers measure round trips to signaling itself or through to the agent.
+const pingSchema = z.object({
+  t: z.literal("ping"),
+  id: z.number().int(),
+  target: z.enum(["signaling", "agent"]).default("signaling"),
+});
+
+// Pointing and drawing shared between browsers, open to every browser peer
+// regardless of the lock. Points are normalized to the frame as displayed
+// (not device coordinates), and annotations are never relayed to the agent.
+const annotationSchema = z.object({
+  t: z.literal("annotation"),
+  shape: z.enum(["laser", "rect", "stroke", "clear"]),
+  id: z.string().max(64).optional(),
+  display: z.number().int().min(0).default(0),
+  points: z
+    .array(z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }))
+    .max(256)
+    .default([]),
+});
+
+// A request while the lock is held joins the queue; the owner approves or
+// denies queued peers by id, and a queued peer can cancel its own request.
 const lockSchema = z.object({
   t: z.literal("lock"),
-  action: z.enum(["request", "release"]),
+  action: z.enum(["request", "release", "cancel", "approve", "deny"]),
+  peerId: z.string().optional(),
+});
+
+// Browsers send set/get; the agent answers with update, addressed to the
+// requesting peer for get and broadcast for device-side changes.
+const clipboardSchema = z.object({
+  t: z.literal("clipboard"),
+  action: z.enum(["set", "get", "update"]),
+  text: z.string().max(MAX_CLIPBOARD_CHARS).optional(),
+  peerId: z.string().optional(),
+});
+
+const logcatSchema = z.object({
+  t: z.literal("logcat"),
+  entries: z.array(
+    z.object({
+      timestamp: z.number(),
+      pid: z.number().int(),
+      tid: z.number().int(),
+      level: z.string(),
+      tag: z.string(),
+      msg: z.string(),
+    }),
+  ),
+});
+
+const locationStateSchema = z.object({
+  t: z.literal("location_state"),
+  latitude: z.number(),
+  longitude: z.number(),
+  altitude: z.number().optional(),
+  route: z
+    .object({
+      speedMps: z.number(),
+      totalMeters: z.number(),
+      progressMeters: z.number(),
+    })
+    .nullable(),
+});
+
+const displaysSchema = z.object({
+  t: z.literal("displays"),
+  displays: z.array(
+    z.object({
+      id: z.number().int(),
+      width: z.number(),
+      height: z.number(),
+      dpi: z.number(),
+      rotation: z.string(),
+    }),
+  ),
+  quality: z.object({ mode: z.string(), level: z.string() }).optional(),
+});
+
+// Manual frame quality, lock owner only; it applies to the full tier, which
+// every peer on that tier shares.
+const frameQualitySchema = z.object({
+  t: z.literal("frame_quality"),
+  mode: z.enum(["auto", "high", "medium", "low", "minimal"]),
+});
+
+// Browsers report frames received and lost since their previous report; the
+// agent's adaptive quality uses it alongside its own backpressure.
+const frameFeedbackSchema = z.object({
+  t: z.literal("frame_feedback"),
+  received: z.number().int().min(0),
+  dropped: z.number().int().min(0),
+});
+
+// Sent by the agent when the emulator's screen stream drops or recovers.
+const deviceStateSchema = z.object({
+  t: z.literal("device_state"),
+  available: z.boolean(),
+  reason: z.string().optional(),
+});
+
+const agentHealthSchema = z.object({
+  deviceAvailable: z.boolean(),
+  displays: z.number().int().min(0),
+  queueDepth: z.number().int().min(0),
+  uptimeSec: z.number().min(0),
+});
+
+// Sent by the agent after hello, then agent_heartbeat periodically.
+const agentRegisterSchema = z.object({
+  t: z.literal("agent_register"),
+  emulatorId: z.string().min(1).max(256),
+  capabilities: z.array(z.string().max(64)).max(64),
+  health: agentHealthSchema,
+});
+
+const agentHeartbeatSchema = z.object({
+  t: z.literal("agent_heartbeat"),
+  health: agentHealthSchema,
 });
 
 const sendJson = (ws: WebSocket, payload: unknown): void => {
@@ -140,54 +1054,431 @@ const sendJson = (ws: WebSocket, payload: unknown): void => {
   }
 };
 
-const broadcastSessionState = (session: Session): void => {
-  const peers = [...session.peers.values()];
-  const lockOwner = session.lockOwnerPeerId;
-  for (const peer of peers) {
+const publish = (message: BusMessage): void => {
+  store.publish(message).catch((error) => console.error("session bus error", error));
+};
+
+const peerInfo = (peer: Peer, connected: boolean): PeerInfo => ({
+  id: peer.id,
+  role: peer.role,
+  nodeId: NODE_ID,
+  connected,
+  resumeToken: peer.resumeToken,
+  jti: peer.jti,
+  fid: peer.fid,
+  scopes: peer.scopes,
+  tier: peer.tier,
+});
+
+// Updates this node's copy of a session and sends session_state to the
+// peers attached here.
+const applySessionState = (session: Session, record: SessionRecord, peerInfos: PeerInfo[]): void => {
+  if (record.lockOwnerPeerId !== session.lockOwnerPeerId) session.lockOwnerSince = Date.now();
+  Object.assign(session, record);
+  session.peerInfos = peerInfos;
+  for (const peer of session.peers.values()) {
     sendJson(peer.ws, {
       t: "session_state",
       sessionId: session.id,
-      lockOwnerPeerId: lockOwner,
-      peers: peers.map((p) => ({ id: p.id, role: p.role })),
+      lockOwnerPeerId: session.lockOwnerPeerId,
+      lockQueue: session.lockQueue.map((r) => ({ peerId: r.peerId, requestedAt: new Date(r.requestedAt).toISOString() })),
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      peers: peerInfos.map((p) => ({
+        id: p.id,
+        role: p.role,
+        connected: p.connected,
+        ...(p.role === "agent" ? {} : { tier: p.tier }),
+      })),
     });
   }
 };
 
+// Re-reads the session after any change to its peers, lock or expiry and
+// fans the new state out to every node.
+const broadcastSessionState = async (sessionId: string): Promise<void> => {
+  const [record, peerInfos] = await Promise.all([store.getSession(sessionId), store.listPeers(sessionId)]);
+  if (!record) return;
+  const session = sessions.get(sessionId);
+  if (session) applySessionState(session, record, peerInfos);
+  if (store.shared) {
+    publish({ origin: NODE_ID, sessionId, t: "session", record, peers: peerInfos });
+  }
+};
+
+// Closes a socket attached here after taking it out of the session, so its
+// close handler doesn't start a resume grace period.
+const dropLocalPeer = (session: Session, peerId: string, code: number, reason: string): void => {
+  const peer = session.peers.get(peerId);
+  if (!peer) return;
+  if (peer.graceTimer) clearTimeout(peer.graceTimer);
+  session.peers.delete(peerId);
+  forgetPeerMetrics(peer);
+  sendJson(peer.ws, { t: "error", message: reason });
+  peer.ws.close(code, reason);
+};
+
+const closeLocalSession = (sessionId: string, code: number, reason: string): void => {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  for (const peerId of [...session.peers.keys()]) {
+    dropLocalPeer(session, peerId, code, reason);
+  }
+  sessions.delete(sessionId);
+};
+
 const findSession = (sessionId: string): Session | null => {
   const session = sessions.get(sessionId);
   if (!session) return null;
   if (Date.now() > session.expiresAt) {
-    for (const peer of session.peers.values()) {
-      sendJson(peer.ws, { t: "error", message: "Session expired" });
-      peer.ws.close(4001, "Session expired");
-    }
-    sessions.delete(sessionId);
+    closeLocalSession(sessionId, 4001, "Session expired");
+    store.deleteSession(sessionId).catch((error) => console.error("session store error", error));
     return null;
   }
   return session;
 };
 
-const relayByRole = (session: Session, role: Role, payload: unknown): void => {
+// Returns this node's copy of a session, reading it from the store when the
+// session's first peer connects here.
+const loadSession = async (sessionId: string): Promise<Session | null> => {
+  const cached = findSession(sessionId);
+  if (cached) return cached;
+
+  const [record, peerInfos] = await Promise.all([store.getSession(sessionId), store.listPeers(sessionId)]);
+  if (!record || Date.now() > record.expiresAt) return null;
+
+  const session = sessions.get(sessionId) ?? {
+    ...record,
+    peerInfos,
+    peers: new Map<string, Peer>(),
+    lockOwnerSince: Date.now(),
+  };
+  sessions.set(sessionId, session);
+  return session;
+};
+
+// Moves the lock away from ownerPeerId to the longest-waiting connected peer
+// in the queue. With none waiting, a release (voluntary or idle) frees the
+// lock, a leaving owner hands it to any connected controller, and an
+// auto-grant leaves it where it is.
+const handOffLock = async (
+  sessionId: string,
+  ownerPeerId: string,
+  reason: "release" | "idle" | "leave" | "auto_grant",
+): Promise<boolean> => {
+  const [record, peerInfos] = await Promise.all([store.getSession(sessionId), store.listPeers(sessionId)]);
+  if (!record || record.lockOwnerPeerId !== ownerPeerId) return false;
+
+  const eligible = (p: PeerInfo) => p.id !== ownerPeerId && p.connected && p.scopes.includes("lock");
+  const queued = record.lockQueue.find((r) => peerInfos.some((p) => p.id === r.peerId && eligible(p)));
+  const controller = reason === "leave" ? peerInfos.find((p) => p.role === "controller" && eligible(p)) : undefined;
+  const next = queued?.peerId ?? controller?.id ?? null;
+  if (next === null && reason === "auto_grant") return false;
+  return await setLockOwner(sessionId, ownerPeerId, next, reason);
+};
+
+// Drops a peer for good, takes it out of the lock queue and, if it held
+// the lock, hands it on. A socket attached here is only detached; callers
+// close it.
+const removePeer = async (sessionId: string, peerId: string): Promise<void> => {
+  const session = sessions.get(sessionId);
+  const local = session?.peers.get(peerId);
+  if (local?.graceTimer) clearTimeout(local.graceTimer);
+  session?.peers.delete(peerId);
+  if (local) forgetPeerMetrics(local);
+  await store.removePeer(sessionId, peerId);
+  await store.dequeueLockRequest(sessionId, peerId);
+  await handOffLock(sessionId, peerId, "leave");
+
+  await broadcastSessionState(sessionId);
+};
+
+const hasRemotePeers = (session: Session, roles: Role[]): boolean =>
+  store.shared && session.peerInfos.some((p) => p.nodeId !== NODE_ID && roles.includes(p.role));
+
+const canReceive = (peer: Peer, payload: unknown): boolean => {
+  const scope = RECEIVE_SCOPES[(payload as { t?: string })?.t ?? ""];
+  return peer.role === "agent" || !scope || peer.scopes.includes(scope);
+};
+
+const deliverByRole = (session: Session, roles: Role[], payload: unknown): void => {
   for (const peer of session.peers.values()) {
-    if (peer.role === role) {
+    if (roles.includes(peer.role) && canReceive(peer, payload)) {
       sendJson(peer.ws, payload);
     }
   }
 };
 
-const relayBinaryByRole = (session: Session, role: Role, payload: Buffer): void => {
+const relayByRole = (session: Session, roles: Role[], payload: unknown): void => {
+  deliverByRole(session, roles, payload);
+  if (hasRemotePeers(session, roles)) {
+    publish({ origin: NODE_ID, sessionId: session.id, t: "relay", roles, payload });
+  }
+};
+
+// Backpressure is applied per socket by the node holding it, so a slow
+// peer on one node never holds back frames for peers on another. Frames only
+// go to browsers subscribed to their tier.
+const deliverBinaryByRole = (session: Session, roles: Role[], payload: Buffer): void => {
+  const channel = BINARY_CHANNEL_NAMES[payload[1]] ?? "unknown";
+  const tier = payload[1] === BINARY_CHANNEL_FRAME ? (FRAME_TIERS[payload[ENVELOPE_TIER_OFFSET]] ?? "full") : null;
   for (const peer of session.peers.values()) {
-    if (peer.role === role && peer.ws.readyState === peer.ws.OPEN && peer.ws.bufferedAmount <= MAX_WS_BUFFERED_BYTES) {
+    if (!roles.includes(peer.role) || (peer.role !== "agent" && !peer.scopes.includes("view"))) continue;
+    if (tier && peer.role !== "agent" && peer.tier !== tier) continue;
+    const labels = { peer_id: peer.id, role: peer.role, channel };
+    if (peer.ws.readyState !== peer.ws.OPEN) {
+      binaryDropped.inc({ ...labels, reason: "closed" });
+    } else if (peer.ws.bufferedAmount > MAX_WS_BUFFERED_BYTES) {
+      binaryDropped.inc({ ...labels, reason: "backpressure" });
+    } else {
       peer.ws.send(payload, { binary: true });
+      binaryRelayed.inc(labels);
     }
   }
 };
 
+const relayBinaryByRole = (session: Session, roles: Role[], payload: Buffer): void => {
+  deliverBinaryByRole(session, roles, payload);
+  if (hasRemotePeers(session, roles)) {
+    store
+      .publishBinary({ origin: NODE_ID, sessionId: session.id, roles, payload })
+      .catch((error) => console.error("session bus error", error));
+  }
+};
+
+const sendToPeer = (session: Session, peerId: string, payload: unknown): void => {
+  const local = session.peers.get(peerId);
+  if (local) {
+    if (canReceive(local, payload)) sendJson(local.ws, payload);
+    return;
+  }
+  if (store.shared && session.peerInfos.some((p) => p.id === peerId)) {
+    publish({ origin: NODE_ID, sessionId: session.id, t: "to_peer", peerId, payload });
+  }
+};
+
+const handleBusMessage = (message: BusMessage): void => {
+  if (message.origin === NODE_ID) return;
+  const session = sessions.get(message.sessionId);
+  if (!session) return;
+
+  if (message.t === "relay") {
+    deliverByRole(session, message.roles, message.payload);
+  }
+  if (message.t === "to_peer") {
+    const peer = session.peers.get(message.peerId);
+    if (peer && canReceive(peer, message.payload)) sendJson(peer.ws, message.payload);
+  }
+  if (message.t === "session") {
+    applySessionState(session, message.record, message.peers);
+  }
+  // The shared peer entry and lock were already updated by the sender.
+  if (message.t === "disconnect") {
+    dropLocalPeer(session, message.peerId, message.code, message.reason);
+  }
+  if (message.t === "terminate") {
+    closeLocalSession(session.id, message.code, message.reason);
+  }
+};
+
+const handleBusBinary = (message: BusBinary): void => {
+  if (message.origin === NODE_ID) return;
+  const session = sessions.get(message.sessionId);
+  if (session) deliverBinaryByRole(session, message.roles, message.payload);
+};
+
+// Removes a peer from the session wherever its socket is attached.
+const disconnectPeer = async (sessionId: string, peerId: string, code: number, reason: string): Promise<void> => {
+  const session = sessions.get(sessionId);
+  if (session?.peers.has(peerId)) {
+    dropLocalPeer(session, peerId, code, reason);
+  } else {
+    publish({ origin: NODE_ID, sessionId, t: "disconnect", peerId, code, reason });
+  }
+  await removePeer(sessionId, peerId);
+};
+
+const adminDisconnectBodySchema = z.object({
+  code: z.number().int().min(4000).max(4999).default(4006),
+  reason: z.string().max(120).default("Disconnected by admin"),
+});
+
+const adminLockBodySchema = z.object({
+  ownerPeerId: z.string().nullable(),
+});
+
+const adminExtendBodySchema = z.object({
+  extendBySec: z.number().int().min(60).max(24 * 3600),
+});
+
+// Wraps an admin handler with the session lookup and store error handling
+// every admin route shares.
+const adminRoute =
+  (handler: (req: express.Request, res: express.Response, record: SessionRecord) => Promise<unknown>): express.RequestHandler =>
+  async (req, res) => {
+    try {
+      const record = await store.getSession(String(req.params.sessionId));
+      if (!record || Date.now() > record.expiresAt) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+      await handler(req, res, record);
+    } catch (error) {
+      console.error("session store error", error);
+      res.status(503).json({ error: "Session store unavailable" });
+    }
+  };
+
+app.get(
+  "/api/admin/sessions/:sessionId",
+  requireAdmin,
+  adminRoute(async (_req, res, record) => {
+    const [peerInfos, agent] = await Promise.all([store.listPeers(record.id), store.getAgent(record.id)]);
+    return res.json({
+      sessionId: record.id,
+      emulatorId: record.emulatorId,
+      createdAt: new Date(record.createdAt).toISOString(),
+      expiresAt: new Date(record.expiresAt).toISOString(),
+      lockOwnerPeerId: record.lockOwnerPeerId,
+      peers: peerInfos.map(({ id, role, nodeId, connected, jti, fid, scopes }) => ({
+        id,
+        role,
+        nodeId,
+        connected,
+        jti,
+        fid,
+        scopes,
+      })),
+      agent,
+    });
+  }),
+);
+
+app.post(
+  "/api/admin/sessions/:sessionId/peers/:peerId/disconnect",
+  requireAdmin,
+  adminRoute(async (req, res, record) => {
+    const parsed = adminDisconnectBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    }
+    const peerId = String(req.params.peerId);
+    if (!(await store.listPeers(record.id)).some((p) => p.id === peerId)) {
+      return res.status(404).json({ error: "Peer not found" });
+    }
+
+    await disconnectPeer(record.id, peerId, parsed.data.code, parsed.data.reason);
+    return res.status(204).end();
+  }),
+);
+
+// fid revokes a token chain directly; a jti is resolved to the chain of the
+// peer holding it, or of the peer whose chain it started. Chains with no
+// peer left are revoked by fid.
+const adminRevokeBodySchema = z
+  .object({
+    fid: z.string().min(1).optional(),
+    jti: z.string().min(1).optional(),
+  })
+  .refine((body) => body.fid || body.jti, { message: "fid or jti required" });
+
+// Tokens never outlive their session, so the revocation can expire with it.
+app.post(
+  "/api/admin/sessions/:sessionId/tokens/revoke",
+  requireAdmin,
+  adminRoute(async (req, res, record) => {
+    const parsed = adminRevokeBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    }
+    const peerInfos = await store.listPeers(record.id);
+    const { jti } = parsed.data;
+    const fid = parsed.data.fid ?? peerInfos.find((p) => p.jti === jti || p.fid === jti)?.fid;
+    if (!fid) {
+      return res.status(404).json({ error: "No peer holds this jti; revoke its chain by fid" });
+    }
+    await store.revokeToken(fid, record.expiresAt);
+
+    const holders = peerInfos.filter((p) => p.fid === fid);
+    for (const holder of holders) {
+      await disconnectPeer(record.id, holder.id, 4008, "Token revoked");
+    }
+    return res.json({ fid, disconnectedPeerIds: holders.map((p) => p.id) });
+  }),
+);
+
+app.put(
+  "/api/admin/sessions/:sessionId/lock",
+  requireAdmin,
+  adminRoute(async (req, res, record) => {
+    const parsed = adminLockBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    }
+    const { ownerPeerId } = parsed.data;
+    if (ownerPeerId) {
+      const target = (await store.listPeers(record.id)).find((p) => p.id === ownerPeerId);
+      if (!target || target.role === "agent") {
+        return res.status(404).json({ error: "Browser peer not found" });
+      }
+      // Same rule as a lock request, so an admin can't hand control to a
+      // token minted without it.
+      if (!target.scopes.includes("lock")) {
+        return res.status(403).json({ error: "Peer's token lacks the lock scope", scope: "lock" });
+      }
+    }
+
+    if (!(await setLockOwner(record.id, record.lockOwnerPeerId, ownerPeerId, "admin"))) {
+      return res.status(409).json({ error: "Lock changed concurrently, retry" });
+    }
+    await broadcastSessionState(record.id);
+    return res.json({ lockOwnerPeerId: ownerPeerId });
+  }),
+);
+
+app.post(
+  "/api/admin/sessions/:sessionId/extend",
+  requireAdmin,
+  adminRoute(async (req, res, record) => {
+    const parsed = adminExtendBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid body", details: parsed.error.flatten() });
+    }
+    const expiresAt = record.expiresAt + parsed.data.extendBySec * 1000;
+    await store.setExpiry(record.id, expiresAt);
+    await broadcastSessionState(record.id);
+    return res.json({ expiresAt: new Date(expiresAt).toISOString() });
+  }),
+);
+
+app.delete(
+  "/api/admin/sessions/:sessionId",
+  requireAdmin,
+  adminRoute(async (_req, res, record) => {
+    await store.deleteSession(record.id);
+    closeLocalSession(record.id, 4007, "Session terminated");
+    if (store.shared) {
+      publish({ origin: NODE_ID, sessionId: record.id, t: "terminate", code: 4007, reason: "Session terminated" });
+    }
+    return res.status(204).end();
+  }),
+);
+
 wss.on("connection", (ws) => {
   let peer: Peer | null = null;
   let sessionId = "";
 
-  ws.on("message", (rawMessage, isBinary) => {
+  // Denials name what was missing, a scope or the lock (scope null), so
+  // clients can tell "not allowed" from "not your turn".
+  const sendDenied = (scope: Scope | null, eventType?: string): void => {
+    sendJson(
+      ws,
+      scope
+        ? { t: "error", code: "missing_scope", scope, eventType, message: `Missing scope ${scope}` }
+        : { t: "error", code: "not_lock_owner", eventType, message: "Not lock owner" },
+    );
+  };
+
+  const handleMessage = async (rawMessage: RawData, isBinary: boolean): Promise<void> => {
     if (isBinary) {
       if (!peer) {
         sendJson(ws, { t: "error", message: "Auth required before binary messages" });
@@ -200,10 +1491,30 @@ wss.on("connection", (ws) => {
         return;
       }
 
+      const frameBuffer = Buffer.from(rawMessage as Buffer);
+      if (frameBuffer.length < ENVELOPE_MIN_HEADER_BYTES || frameBuffer[0] !== ENVELOPE_VERSION) {
+        sendJson(ws, { t: "error", message: "Unsupported binary envelope" });
+        return;
+      }
+      const channel = frameBuffer[1];
+
       if (peer.role === "agent") {
-        const frameBuffer = Buffer.from(rawMessage as Buffer);
-        relayBinaryByRole(session, "controller", frameBuffer);
-        relayBinaryByRole(session, "viewer", frameBuffer);
+        if (channel !== BINARY_CHANNEL_FRAME && channel !== BINARY_CHANNEL_AUDIO) return;
+        relayBinaryByRole(session, BROWSER_ROLES, frameBuffer);
+        return;
+      }
+
+      if (channel === BINARY_CHANNEL_MIC) {
+        if (!peer.scopes.includes("mic")) {
+          sendDenied("mic");
+          return;
+        }
+        if (session.lockOwnerPeerId !== peer.id) {
+          sendDenied(null);
+          return;
+        }
+        peer.lastInputAt = Date.now();
+        relayBinaryByRole(session, ["agent"], frameBuffer);
       }
       return;
     }
@@ -217,6 +1528,7 @@ wss.on("connection", (ws) => {
     }
 
     if (!peer) {
+      const helloStartedAt = performance.now();
       const hello = helloSchema.safeParse(message);
       if (!hello.success) {
         sendJson(ws, { t: "error", message: "First message must be hello" });
@@ -224,43 +1536,89 @@ wss.on("connection", (ws) => {
         return;
       }
 
-      try {
-        const decoded = jwt.verify(hello.data.token, SESSION_SIGNING_KEY, {
-          issuer: "android-browser-mirror-poc",
-          audience: "local-dev",
-        }) as TokenPayload;
+      const decoded = verifyToken(hello.data.token);
+      if (!decoded) {
+        sendJson(ws, { t: "error", message: "Invalid token" });
+        ws.close(4003, "Invalid token");
+        return;
+      }
+      if (await store.isTokenRevoked(decoded.fid)) {
+        sendJson(ws, { t: "error", message: "Token revoked" });
+        ws.close(4008, "Token revoked");
+        return;
+      }
 
-        const session = findSession(decoded.sessionId);
-        if (!session) {
-          sendJson(ws, { t: "error", message: "Session not found" });
-          ws.close(4004, "Session not found");
-          return;
-        }
+      const session = await loadSession(decoded.sessionId);
+      if (!session) {
+        sendJson(ws, { t: "error", message: "Session not found" });
+        ws.close(4004, "Session not found");
+        return;
+      }
+
+      const { resumeToken } = hello.data;
+      const resumed = resumeToken
+        ? (await store.listPeers(session.id)).find((p) => p.resumeToken === resumeToken && p.role === decoded.role)
+        : undefined;
+      const local = resumed ? session.peers.get(resumed.id) : undefined;
 
+      if (local) {
+        if (local.graceTimer) clearTimeout(local.graceTimer);
+        local.graceTimer = null;
+        // A half-open old socket must not detach the peer when it finally closes.
+        if (local.ws !== ws) local.ws.close(4005, "Resumed elsewhere");
+        local.ws = ws;
+        local.jti = decoded.jti;
+        local.fid = decoded.fid;
+        local.scopes = decoded.scopes;
+        local.tier = hello.data.tier ?? local.tier;
+        peer = local;
+      } else {
+        if (resumed) {
+          publish({
+            origin: NODE_ID,
+            sessionId: session.id,
+            t: "disconnect",
+            peerId: resumed.id,
+            code: 4005,
+            reason: "Resumed elsewhere",
+          });
+        }
         peer = {
-          id: randomUUID(),
+          id: resumed?.id ?? randomUUID(),
           role: decoded.role,
           ws,
+          resumeToken: resumed?.resumeToken ?? randomUUID(),
+          graceTimer: null,
+          jti: decoded.jti,
+          fid: decoded.fid,
+          scopes: decoded.scopes,
+          tier: hello.data.tier ?? resumed?.tier ?? "full",
+          lastInputAt: Date.now(),
+          annotationBudget: ANNOTATION_MAX_PER_SEC,
+          annotationBudgetAt: Date.now(),
         };
-        sessionId = decoded.sessionId;
         session.peers.set(peer.id, peer);
+      }
+      sessionId = decoded.sessionId;
+      await store.putPeer(session.id, peerInfo(peer, true), session.expiresAt);
 
-        if (!session.lockOwnerPeerId && peer.role === "controller") {
-          session.lockOwnerPeerId = peer.id;
-        }
-
-        sendJson(ws, {
-          t: "hello_ack",
-          peerId: peer.id,
-          role: peer.role,
-          sessionId,
-          emulatorId: session.emulatorId,
-        });
-        broadcastSessionState(session);
-      } catch {
-        sendJson(ws, { t: "error", message: "Invalid token" });
-        ws.close(4003, "Invalid token");
+      if (peer.role === "controller" && peer.scopes.includes("lock")) {
+        await setLockOwner(session.id, null, peer.id, "hello");
       }
+
+      sendJson(ws, {
+        t: "hello_ack",
+        peerId: peer.id,
+        role: peer.role,
+        sessionId,
+        emulatorId: session.emulatorId,
+        resumeToken: peer.resumeToken,
+        resumed: Boolean(resumed),
+        scopes: peer.scopes,
+        tier: peer.tier,
+      });
+      helloDuration.observe({ role: peer.role }, (performance.now() - helloStartedAt) / 1000);
+      await broadcastSessionState(session.id);
       return;
     }
 
@@ -270,72 +1628,367 @@ wss.on("connection", (ws) => {
       return;
     }
 
+    const tokenUpdate = tokenUpdateSchema.safeParse(message);
+    if (tokenUpdate.success) {
+      const decoded = verifyToken(tokenUpdate.data.token);
+      if (!decoded || decoded.sessionId !== session.id || decoded.role !== peer.role || decoded.fid !== peer.fid) {
+        sendJson(ws, { t: "error", message: "Invalid token" });
+        return;
+      }
+      peer.jti = decoded.jti;
+      await store.putPeer(session.id, peerInfo(peer, true), session.expiresAt);
+      return;
+    }
+
     const signal = signalSchema.safeParse(message);
     if (signal.success) {
       if (peer.role === "agent") {
-        relayByRole(session, "controller", { t: signal.data.t, payload: signal.data.payload });
-        relayByRole(session, "viewer", { t: signal.data.t, payload: signal.data.payload });
+        relayByRole(session, BROWSER_ROLES, { t: signal.data.t, payload: signal.data.payload });
       } else {
-        relayByRole(session, "agent", { t: signal.data.t, payload: signal.data.payload });
+        relayByRole(session, ["agent"], { t: signal.data.t, payload: signal.data.payload });
       }
       return;
     }
 
     const control = controlSchema.safeParse(message);
     if (control.success && peer.role !== "agent") {
+      const eventType = controlEventTypeSchema.safeParse(control.data.event);
+      const scope = eventType.success ? controlEventScope(eventType.data) : null;
+      if (!eventType.success || !scope) {
+        controlMessages.inc({ type: "unknown", outcome: "unknown_event" });
+        sendJson(ws, { t: "error", code: "unknown_event", message: "Unknown control event type" });
+        return;
+      }
+      const { type } = eventType.data;
+      if (!peer.scopes.includes(scope)) {
+        controlMessages.inc({ type, outcome: "missing_scope" });
+        sendDenied(scope, type);
+        return;
+      }
+      if (session.lockOwnerPeerId !== peer.id) {
+        controlMessages.inc({ type, outcome: "not_lock_owner" });
+        sendDenied(null, type);
+        return;
+      }
+      peer.lastInputAt = Date.now();
+      controlMessages.inc({ type, outcome: "relayed" });
+      relayByRole(session, ["agent"], { ...control.data, peerId: peer.id });
+      return;
+    }
+
+    const frameQuality = frameQualitySchema.safeParse(message);
+    if (frameQuality.success && peer.role !== "agent") {
       if (session.lockOwnerPeerId !== peer.id) {
-        sendJson(ws, { t: "error", message: "Not lock owner" });
+        sendDenied(null);
+        return;
+      }
+      relayByRole(session, ["agent"], frameQuality.data);
+      return;
+    }
+
+    const frameTier = frameTierSchema.safeParse(message);
+    if (frameTier.success && peer.role !== "agent") {
+      peer.tier = frameTier.data.tier;
+      await store.putPeer(session.id, peerInfo(peer, true), session.expiresAt);
+      await broadcastSessionState(session.id);
+      return;
+    }
+
+    const frameFeedback = frameFeedbackSchema.safeParse(message);
+    if (frameFeedback.success && peer.role !== "agent") {
+      relayByRole(session, ["agent"], { ...frameFeedback.data, peerId: peer.id });
+      return;
+    }
+
+    const ping = pingSchema.safeParse(message);
+    if (ping.success && peer.role !== "agent") {
+      const { id, target } = ping.data;
+      if (target === "signaling") sendJson(ws, { t: "pong", id });
+      else relayByRole(session, ["agent"], { t: "ping", id, peerId: peer.id });
+      return;
+    }
+
+    const annotation = annotationSchema.safeParse(message);
+    if (annotation.success && peer.role !== "agent") {
+      const now = Date.now();
+      peer.annotationBudget = Math.min(
+        ANNOTATION_MAX_PER_SEC,
+        peer.annotationBudget + ((now - peer.annotationBudgetAt) / 1000) * ANNOTATION_MAX_PER_SEC,
+      );
+      peer.annotationBudgetAt = now;
+      if (peer.annotationBudget < 1) {
+        sendJson(ws, { t: "error", code: "rate_limited", message: "Too many annotations" });
         return;
       }
-      relayByRole(session, "agent", control.data);
+      peer.annotationBudget -= 1;
+      relayByRole(session, BROWSER_ROLES, { ...annotation.data, peerId: peer.id });
+      return;
+    }
+
+    const controlResult = controlResultSchema.safeParse(message);
+    if (controlResult.success && peer.role === "agent") {
+      const { peerId: targetPeerId, ...result } = controlResult.data;
+      sendToPeer(session, targetPeerId, result);
+      return;
+    }
+
+    const logcat = logcatSchema.safeParse(message);
+    if (logcat.success && peer.role === "agent") {
+      relayByRole(session, BROWSER_ROLES, logcat.data);
+      return;
+    }
+
+    const displays = displaysSchema.safeParse(message);
+    if (displays.success && peer.role === "agent") {
+      relayByRole(session, BROWSER_ROLES, displays.data);
+      return;
+    }
+
+    const deviceState = deviceStateSchema.safeParse(message);
+    if (deviceState.success && peer.role === "agent") {
+      relayByRole(session, BROWSER_ROLES, deviceState.data);
+      return;
+    }
+
+    const agentRegister = agentRegisterSchema.safeParse(message);
+    if (agentRegister.success && peer.role === "agent") {
+      const now = Date.now();
+      const { emulatorId, capabilities, health } = agentRegister.data;
+      await store.putAgent(session.id, { emulatorId, capabilities, health, registeredAt: now, lastHeartbeatAt: now }, session.expiresAt);
+      return;
+    }
+
+    const agentHeartbeat = agentHeartbeatSchema.safeParse(message);
+    if (agentHeartbeat.success && peer.role === "agent") {
+      const agent = await store.getAgent(session.id);
+      if (!agent) return;
+      await store.putAgent(
+        session.id,
+        { ...agent, health: agentHeartbeat.data.health, lastHeartbeatAt: Date.now() },
+        session.expiresAt,
+      );
+      return;
+    }
+
+    const locationState = locationStateSchema.safeParse(message);
+    if (locationState.success && peer.role === "agent") {
+      relayByRole(session, BROWSER_ROLES, locationState.data);
+      return;
+    }
+
+    const clipboard = clipboardSchema.safeParse(message);
+    if (clipboard.success) {
+      const { action, text, peerId } = clipboard.data;
+
+      if (peer.role === "agent") {
+        if (action !== "update") return;
+        if (peerId) {
+          sendToPeer(session, peerId, { t: "clipboard", action, text: text ?? "" });
+        } else {
+          relayByRole(session, BROWSER_ROLES, { t: "clipboard", action, text: text ?? "" });
+        }
+        return;
+      }
+
+      if (action === "set") {
+        if (!peer.scopes.includes("clipboard:write")) {
+          sendDenied("clipboard:write");
+          return;
+        }
+        if (session.lockOwnerPeerId !== peer.id) {
+          sendDenied(null);
+          return;
+        }
+        peer.lastInputAt = Date.now();
+        relayByRole(session, ["agent"], { t: "clipboard", action, text: text ?? "" });
+      }
+      if (action === "get") {
+        if (!peer.scopes.includes("clipboard:read")) {
+          sendDenied("clipboard:read");
+          return;
+        }
+        relayByRole(session, ["agent"], { t: "clipboard", action, peerId: peer.id });
+      }
       return;
     }
 
     const lock = lockSchema.safeParse(message);
     if (lock.success) {
       if (lock.data.action === "request") {
-        if (!session.lockOwnerPeerId || session.lockOwnerPeerId === peer.id) {
-          session.lockOwnerPeerId = peer.id;
-          sendJson(ws, { t: "lock_result", granted: true, ownerPeerId: peer.id });
-        } else {
-          sendJson(ws, { t: "lock_result", granted: false, ownerPeerId: session.lockOwnerPeerId });
+        if (!peer.scopes.includes("lock")) {
+          sendDenied("lock");
+          return;
+        }
+        const granted =
+          (await setLockOwner(session.id, null, peer.id, "request")) ||
+          (await setLockOwner(session.id, peer.id, peer.id, "request"));
+        if (!granted) {
+          await store.enqueueLockRequest(session.id, { peerId: peer.id, requestedAt: Date.now() });
         }
+        await broadcastSessionState(session.id);
+        sendJson(ws, { t: "lock_result", granted, queued: !granted, ownerPeerId: session.lockOwnerPeerId });
+        return;
+      }
+
+      if (lock.data.action === "cancel") {
+        await store.dequeueLockRequest(session.id, peer.id);
+        await broadcastSessionState(session.id);
+        return;
       }
 
-      if (lock.data.action === "release" && session.lockOwnerPeerId === peer.id) {
-        session.lockOwnerPeerId = null;
+      if (lock.data.action === "approve" || lock.data.action === "deny") {
+        const targetPeerId = lock.data.peerId;
+        const record = await store.getSession(session.id);
+        if (!record || record.lockOwnerPeerId !== peer.id) {
+          sendDenied(null);
+          return;
+        }
+        if (!targetPeerId || !record.lockQueue.some((r) => r.peerId === targetPeerId)) {
+          sendJson(ws, { t: "error", code: "not_queued", message: "Peer is not waiting for the lock" });
+          return;
+        }
+
+        const approved =
+          lock.data.action === "approve" && (await setLockOwner(session.id, peer.id, targetPeerId, "approve"));
+        if (lock.data.action === "deny") await store.dequeueLockRequest(session.id, targetPeerId);
+        await broadcastSessionState(session.id);
+        sendToPeer(session, targetPeerId, {
+          t: "lock_result",
+          granted: approved,
+          ownerPeerId: session.lockOwnerPeerId,
+          reason: approved ? "approved" : "denied",
+        });
+        return;
       }
 
-      broadcastSessionState(session);
+      await handOffLock(session.id, peer.id, "release");
+      await broadcastSessionState(session.id);
       return;
     }
 
     sendJson(ws, { t: "error", message: "Unknown message" });
-  });
+  };
 
-  ws.on("close", () => {
-    if (!peer || !sessionId) return;
+  // A normal close (1000) means the browser left on purpose; anything else
+  // may be a network blip, so the peer and its lock are held for the grace
+  // period. Agents reconnect with a fresh hello and are removed at once.
+  const handleClose = async (code: number): Promise<void> => {
+    if (!peer || !sessionId || peer.ws !== ws) return;
     const session = sessions.get(sessionId);
-    if (!session) return;
-    session.peers.delete(peer.id);
-
-    if (session.lockOwnerPeerId === peer.id) {
-      session.lockOwnerPeerId = null;
-      const nextController = [...session.peers.values()].find((p) => p.role === "controller");
-      if (nextController) {
-        session.lockOwnerPeerId = nextController.id;
-      }
-    }
+    if (!session || session.peers.get(peer.id) !== peer) return;
 
-    if (session.peers.size === 0) {
-      sessions.delete(sessionId);
+    if (peer.role === "agent" || code === 1000 || PEER_RESUME_GRACE_MS <= 0) {
+      await removePeer(session.id, peer.id);
       return;
     }
 
-    broadcastSessionState(session);
+    const detached = peer;
+    detached.graceTimer = setTimeout(() => {
+      if (session.peers.get(detached.id) !== detached) return;
+      removePeer(session.id, detached.id).catch((error) => console.error("session store error", error));
+    }, PEER_RESUME_GRACE_MS);
+    await store.putPeer(session.id, peerInfo(detached, false), session.expiresAt);
+    await broadcastSessionState(session.id);
+  };
+
+  // Store calls are async, so messages from one socket are handled strictly
+  // in order; otherwise a frame could overtake the hello it follows.
+  let pending = Promise.resolve();
+  const handleError = (error: unknown): void => {
+    console.error("session store error", error);
+    sendJson(ws, { t: "error", message: "Session store unavailable" });
+  };
+
+  ws.on("message", (rawMessage, isBinary) => {
+    pending = pending.then(() => handleMessage(rawMessage, isBinary)).catch(handleError);
   });
-});
 
-httpServer.listen(PORT, () => {
-  console.log(`signaling server listening on http://localhost:${PORT}`);
+  ws.on("close", (code) => {
+    pending = pending.then(() => handleClose(code)).catch(handleError);
+  });
 });
+
+// The owner's node is the only one that sees its input, so each node checks
+// the locks held by its own peers: idle owners lose the lock, and with
+// LOCK_AUTO_GRANT_SEC the first queued peer gets it if the owner doesn't
+// answer in time. Both count from when the owner got the lock at the earliest.
+const checkLocks = async (): Promise<void> => {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    const owner = session.lockOwnerPeerId ? session.peers.get(session.lockOwnerPeerId) : undefined;
+    if (!owner) continue;
+
+    const idleMs = now - Math.max(session.lockOwnerSince, owner.lastInputAt);
+    const head = session.lockQueue[0];
+    const waitedMs = head ? now - Math.max(session.lockOwnerSince, head.requestedAt) : 0;
+    const reason =
+      LOCK_IDLE_RELEASE_SEC > 0 && idleMs > LOCK_IDLE_RELEASE_SEC * 1000
+        ? "idle"
+        : LOCK_AUTO_GRANT_SEC > 0 && waitedMs > LOCK_AUTO_GRANT_SEC * 1000
+          ? "auto_grant"
+          : null;
+    if (!reason) continue;
+
+    if (await handOffLock(session.id, owner.id, reason)) {
+      await broadcastSessionState(session.id);
+      sendJson(owner.ws, { t: "lock_result", granted: false, ownerPeerId: session.lockOwnerPeerId, reason });
+    }
+  }
+};
+
+if (LOCK_IDLE_RELEASE_SEC > 0 || LOCK_AUTO_GRANT_SEC > 0) {
+  setInterval(() => void checkLocks().catch((error) => console.error("session store error", error)), 1000);
+}
+
+// Peers live in the store next to the session, so a node that crashes leaves
+// its peers, and any lock one of them holds, behind. Each node heartbeats and
+// every node removes the peers of nodes that stopped, which hands their locks
+// on like any other leaving owner.
+const reapDeadNodes = async (): Promise<void> => {
+  await store.heartbeatNode(NODE_ID, NODE_HEARTBEAT_TTL_MS);
+  const alive = new Map<string, boolean>([[NODE_ID, true]]);
+  for (const record of await store.listSessions()) {
+    for (const peer of await store.listPeers(record.id)) {
+      if (!alive.has(peer.nodeId)) alive.set(peer.nodeId, await store.isNodeAlive(peer.nodeId));
+      if (alive.get(peer.nodeId)) continue;
+      console.log(`removing peer ${peer.id} of session ${record.id}: node ${peer.nodeId} stopped heartbeating`);
+      await removePeer(record.id, peer.id);
+    }
+  }
+};
+
+if (store.shared) {
+  setInterval(
+    () => void reapDeadNodes().catch((error) => console.error("session store error", error)),
+    NODE_HEARTBEAT_TTL_MS / 3,
+  );
+}
+
+// Empty sessions are kept until they expire so a reconnecting agent can
+// rejoin with its original token; this sweep drops the expired ones.
+setInterval(() => {
+  for (const id of [...sessions.keys()]) {
+    findSession(id);
+  }
+  store
+    .listSessions()
+    .then(async (records) => {
+      for (const record of records) {
+        if (Date.now() > record.expiresAt) await store.deleteSession(record.id);
+      }
+    })
+    .catch((error) => console.error("session store error", error));
+}, 60_000);
+
+store
+  .subscribe(handleBusMessage, handleBusBinary)
+  .then(() => store.heartbeatNode(NODE_ID, NODE_HEARTBEAT_TTL_MS))
+  .then(() => {
+    httpServer.listen(PORT, () => {
+      console.log(`signaling server listening on http://localhost:${PORT} (node ${NODE_ID}, ${SESSION_STORE} store, tokens valid ${ACCESS_TOKEN_TTL_SEC}s)`);
+    });
+  })
+  .catch((error) => {
+    console.error("failed to subscribe to session bus", error);
+    process.exit(1);
+  });
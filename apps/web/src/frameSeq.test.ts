@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { FRAME_SEQ_MAX_GAP, countDroppedFrames } from "./frameSeq";
+
+describe("countDroppedFrames", () => {
+  it("counts nothing for the first frame of a stream", () => {
+    expect(countDroppedFrames(null, 5000)).toBe(0);
+  });
+
+  it("counts the frames skipped between consecutive seqs", () => {
+    expect(countDroppedFrames(10, 11)).toBe(0);
+    expect(countDroppedFrames(10, 14)).toBe(3);
+  });
+
+  it("treats a seq that goes backwards as a new stream", () => {
+    expect(countDroppedFrames(4000, 1)).toBe(0);
+    expect(countDroppedFrames(12, 12)).toBe(0);
+  });
+
+  it("treats a jump past the largest plausible drop as a new stream", () => {
+    expect(countDroppedFrames(3, 3 + FRAME_SEQ_MAX_GAP + 1)).toBe(FRAME_SEQ_MAX_GAP);
+    expect(countDroppedFrames(3, 3 + FRAME_SEQ_MAX_GAP + 2)).toBe(0);
+    // A thumbnail stream a few frames in, then a long-running full stream.
+    expect(countDroppedFrames(42, 18_000)).toBe(0);
+  });
+});
@@ -0,0 +1,11 @@
+// The emulator numbers frames per screenshot stream, and every tier and
+// quality level is a stream of its own. A seq that goes backwards or jumps
+// further than any real drop would is a new stream, not lost frames.
+export const FRAME_SEQ_MAX_GAP = 300;
+
+// Frames lost between the last seq seen on a display and the one just received.
+export const countDroppedFrames = (lastSeq: number | null, seq: number): number => {
+  if (lastSeq === null || seq <= lastSeq) return 0;
+  const gap = seq - lastSeq - 1;
+  return gap > FRAME_SEQ_MAX_GAP ? 0 : gap;
+};
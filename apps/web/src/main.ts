@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { countDroppedFrames } from "./frameSeq";
 
 const params = new URLSearchParams(window.location.search);
 
@@ -16,9 +17,25 @@ app.innerHTML = `
     button { background: #0d5bd6; color: white; border: 0; border-radius: 8px; padding: 8px 12px; cursor: pointer; }
     button.secondary { background: #536079; }
     .status { font-size: 13px; color: #536079; }
+    .status.warning { color: #b3261e; font-weight: 600; }
+    .displays.unavailable img { opacity: .35; }
+    .displays { display: flex; gap: 12px; flex-wrap: wrap; align-items: flex-start; }
     .viewer { position: relative; width: min(100%, 420px); aspect-ratio: 9/19.5; border-radius: 16px; overflow: hidden; background: #111; margin-top: 12px; }
+    .viewer[hidden] { display: none; }
+    button.tab.active { background: #0d5bd6; }
     img { width: 100%; height: 100%; object-fit: contain; display: block; }
     .overlay { position: absolute; inset: 0; touch-action: none; }
+    .annotations { position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none; }
+    select { border: 1px solid #cfd4dc; border-radius: 8px; padding: 7px; }
+    input.invalid { border-color: #d93f3f; }
+    details.panel > summary { cursor: pointer; font-weight: 600; }
+    details.panel[open] > summary { margin-bottom: 8px; }
+    .logcat { height: 280px; overflow-y: auto; margin-top: 8px; padding: 8px; border-radius: 8px; background: #15171c; color: #d5d9e0; font: 12px/1.4 Consolas, monospace; white-space: pre-wrap; word-break: break-all; }
+    .log-WARN { color: #e6b450; }
+    .log-ERR, .log-FATAL { color: #f07178; }
+    .log-VERBOSE, .log-DEBUG { color: #8a93a3; }
+    .hud { margin-top: 8px; padding: 6px 8px; border-radius: 8px; background: #15171c; color: #d5d9e0; font: 12px/1.4 Consolas, monospace; white-space: pre; width: fit-content; }
+    .hud[hidden] { display: none; }
   </style>
   <div class="panel">
     <div class="row">
@@ -30,19 +47,191 @@ app.innerHTML = `
       <button id="releaseLock" class="secondary">Release</button>
     </div>
     <div class="row" style="margin-top:8px">
-      <button id="navBack" class="secondary">Back</button>
-      <button id="navHome" class="secondary">Home</button>
-      <button id="navRecent" class="secondary">Recent</button>
-      <button id="navPower" class="secondary">Power</button>
+      <button id="navBack" class="secondary" data-scope="control:nav">Back</button>
+      <button id="navHome" class="secondary" data-scope="control:nav">Home</button>
+      <button id="navRecent" class="secondary" data-scope="control:nav">Recent</button>
+      <button id="navPower" class="secondary" data-scope="control:power">Power</button>
+      <button id="navRotate" class="secondary" data-scope="control:nav">Rotate</button>
+      <button id="clipboardPaste" class="secondary" data-scope="clipboard:write">Paste to device</button>
+      <button id="clipboardCopy" class="secondary" data-scope="clipboard:read">Copy from device</button>
+      <button id="audioToggle" class="secondary">Unmute</button>
+      <label>Volume <input id="audioVolume" type="range" min="0" max="1" step="0.05" value="0.8"/></label>
+      <button id="micToggle" class="secondary" data-scope="mic">Mic off</button>
     </div>
+    <div class="status">Ctrl+drag to pinch or rotate, Shift+drag for a two-finger swipe.</div>
     <div class="status" id="status">Disconnected</div>
     <div class="status" id="lockStatus"></div>
+    <div class="row status" id="lockQueue"></div>
+    <div class="status" id="clipboardStatus"></div>
   </div>
   <div class="panel">
-    <div class="viewer" id="viewer">
-      <img id="frame" alt="Android stream"/>
-      <div class="overlay" id="overlay"></div>
+    <div class="row">
+      <div class="row" id="displayTabs"></div>
+      <label>Layout
+        <select id="displayLayout">
+          <option value="tabs">Tabs</option>
+          <option value="side">Side by side</option>
+        </select>
+      </label>
+      <label>Annotate
+        <select id="annotationTool">
+          <option value="off">Off (control device)</option>
+          <option value="laser">Laser pointer</option>
+          <option value="rect">Rectangle</option>
+          <option value="stroke">Freehand</option>
+        </select>
+      </label>
+      <button id="annotationClear" class="secondary">Clear annotations</button>
+      <label>Tier
+        <select id="frameTier">
+          <option value="full">Full</option>
+          <option value="reduced">Reduced</option>
+          <option value="thumbnail">Thumbnail</option>
+        </select>
+      </label>
+      <label>Quality
+        <select id="frameQuality">
+          <option value="auto">Auto</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+          <option value="minimal">Minimal</option>
+        </select>
+      </label>
+      <button id="hudToggle" class="secondary">Show stats</button>
+    </div>
+    <div class="status warning" id="deviceStatus"></div>
+    <div class="status" id="frameStats"></div>
+    <div class="hud" id="hud" hidden></div>
+    <div class="displays" id="displays"></div>
+  </div>
+  <div class="panel">
+    <div class="row">
+      <strong>Location</strong>
+      <label>Lat <input id="gpsLat" type="number" step="any" style="width:120px"/></label>
+      <label>Long <input id="gpsLng" type="number" step="any" style="width:120px"/></label>
+      <label>Alt (m) <input id="gpsAlt" type="number" step="any" value="0" style="width:80px"/></label>
+      <button id="gpsSet" data-scope="control:location">Set</button>
+      <button id="gpsRefresh" class="secondary" data-scope="control:location">Refresh</button>
+    </div>
+    <div class="row" style="margin-top:8px">
+      <label>Route (GPX/KML) <input id="gpsRouteFile" type="file" accept=".gpx,.kml"/></label>
+      <label>Speed (km/h) <input id="gpsSpeed" type="number" min="1" value="50" style="width:80px"/></label>
+      <button id="gpsRoutePlay" data-scope="control:location">Play route</button>
+      <button id="gpsRouteStop" class="secondary" data-scope="control:location">Stop</button>
+    </div>
+    <div class="status" id="gpsStatus"></div>
+  </div>
+  <details class="panel">
+    <summary>Device state</summary>
+    <div class="row">
+      <label>Battery <input id="batteryLevel" type="range" min="0" max="100" value="100"/></label>
+      <span class="status" id="batteryLevelText">100%</span>
+      <label>Charger
+        <select id="batteryCharger">
+          <option value="AC">AC</option>
+          <option value="USB">USB</option>
+          <option value="WIRELESS">Wireless</option>
+          <option value="NONE">None</option>
+        </select>
+      </label>
+      <label>Health
+        <select id="batteryHealth">
+          <option value="GOOD">Good</option>
+          <option value="OVERHEATED">Overheated</option>
+          <option value="OVERVOLTAGE">Overvoltage</option>
+          <option value="DEAD">Dead</option>
+          <option value="FAILED">Failed</option>
+        </select>
+      </label>
+      <button id="batteryApply" data-scope="control:device">Apply battery</button>
+    </div>
+    <div class="row" style="margin-top:8px">
+      <label>Sensor
+        <select id="sensorTarget">
+          <optgroup label="Sensors">
+            <option value="sensor:ACCELERATION">ACCELERATION</option>
+            <option value="sensor:GYROSCOPE">GYROSCOPE</option>
+            <option value="sensor:MAGNETIC_FIELD">MAGNETIC_FIELD</option>
+            <option value="sensor:ORIENTATION">ORIENTATION</option>
+            <option value="sensor:TEMPERATURE">TEMPERATURE</option>
+            <option value="sensor:PROXIMITY">PROXIMITY</option>
+            <option value="sensor:LIGHT">LIGHT</option>
+            <option value="sensor:PRESSURE">PRESSURE</option>
+            <option value="sensor:HUMIDITY">HUMIDITY</option>
+            <option value="sensor:HEART_RATE">HEART_RATE</option>
+            <option value="sensor:RGBC_LIGHT">RGBC_LIGHT</option>
+          </optgroup>
+          <optgroup label="Physical model">
+            <option value="physical:POSITION">POSITION</option>
+            <option value="physical:ROTATION">ROTATION</option>
+            <option value="physical:MAGNETIC_FIELD">MAGNETIC_FIELD</option>
+            <option value="physical:TEMPERATURE">TEMPERATURE</option>
+            <option value="physical:PROXIMITY">PROXIMITY</option>
+            <option value="physical:LIGHT">LIGHT</option>
+            <option value="physical:PRESSURE">PRESSURE</option>
+            <option value="physical:HUMIDITY">HUMIDITY</option>
+            <option value="physical:VELOCITY">VELOCITY</option>
+            <option value="physical:AMBIENT_MOTION">AMBIENT_MOTION</option>
+            <option value="physical:HINGE_ANGLE0">HINGE_ANGLE0</option>
+            <option value="physical:HINGE_ANGLE1">HINGE_ANGLE1</option>
+            <option value="physical:HINGE_ANGLE2">HINGE_ANGLE2</option>
+            <option value="physical:POSTURE">POSTURE</option>
+            <option value="physical:HEART_RATE">HEART_RATE</option>
+            <option value="physical:WRIST_TILT">WRIST_TILT</option>
+          </optgroup>
+        </select>
+      </label>
+      <label>Values <input id="sensorValues" placeholder="x, y, z" style="width:160px"/></label>
+      <button id="sensorApply" data-scope="control:device">Apply sensor</button>
     </div>
+    <div class="row" style="margin-top:8px">
+      <label>Fingerprint id <input id="fingerprintId" type="number" min="0" value="1" style="width:60px"/></label>
+      <button id="fingerprintTouch" data-scope="control:device">Touch sensor</button>
+    </div>
+  </details>
+  <details class="panel">
+    <summary>Telephony</summary>
+    <div class="row">
+      <label>From <input id="smsFrom" placeholder="+15555550100" style="width:140px"/></label>
+      <label>Message <input id="smsText" style="width:320px"/></label>
+      <button id="smsSend" data-scope="control:telephony">Send SMS</button>
+    </div>
+    <div class="row" style="margin-top:8px">
+      <label>Caller <input id="callNumber" placeholder="+15555550100" style="width:140px"/></label>
+      <button data-call="InitCall" data-scope="control:telephony">Incoming call</button>
+      <button data-call="AcceptCall" data-scope="control:telephony" class="secondary">Accept</button>
+      <button data-call="PlaceCallOnHold" data-scope="control:telephony" class="secondary">Hold</button>
+      <button data-call="TakeCallOffHold" data-scope="control:telephony" class="secondary">Resume</button>
+      <button data-call="RejectCallBusy" data-scope="control:telephony" class="secondary">Busy</button>
+      <button data-call="DisconnectCall" data-scope="control:telephony" class="secondary">End</button>
+    </div>
+    <div class="row" style="margin-top:8px">
+      <label>Device number <input id="deviceNumber" style="width:140px"/></label>
+      <button id="deviceNumberSet" class="secondary" data-scope="control:telephony">Set number</button>
+    </div>
+    <div class="status" id="telephonyStatus"></div>
+  </details>
+  <div class="panel">
+    <div class="row">
+      <strong>Logcat</strong>
+      <label>Level
+        <select id="logcatLevel">
+          <option value="VERBOSE">Verbose</option>
+          <option value="DEBUG">Debug</option>
+          <option value="INFO">Info</option>
+          <option value="WARN">Warn</option>
+          <option value="ERR">Error</option>
+          <option value="FATAL">Fatal</option>
+        </select>
+      </label>
+      <label>Tag <input id="logcatTag" style="width:140px"/></label>
+      <label>Filter <input id="logcatFilter" placeholder="regex" style="width:220px"/></label>
+      <button id="logcatPause" class="secondary">Pause</button>
+      <button id="logcatClear" class="secondary">Clear</button>
+      <button id="logcatExport" class="secondary">Export</button>
+    </div>
+    <div class="logcat" id="logcat"></div>
   </div>
 `;
 
@@ -54,19 +243,215 @@ const requestLockButton = document.querySelector<HTMLButtonElement>("#requestLoc
 const releaseLockButton = document.querySelector<HTMLButtonElement>("#releaseLock")!;
 const statusText = document.querySelector<HTMLDivElement>("#status")!;
 const lockStatus = document.querySelector<HTMLDivElement>("#lockStatus")!;
-const frameImg = document.querySelector<HTMLImageElement>("#frame")!;
-const overlay = document.querySelector<HTMLDivElement>("#overlay")!;
+const lockQueueList = document.querySelector<HTMLDivElement>("#lockQueue")!;
+const clipboardStatus = document.querySelector<HTMLDivElement>("#clipboardStatus")!;
+const gpsLatInput = document.querySelector<HTMLInputElement>("#gpsLat")!;
+const gpsLngInput = document.querySelector<HTMLInputElement>("#gpsLng")!;
+const gpsAltInput = document.querySelector<HTMLInputElement>("#gpsAlt")!;
+const gpsRouteFileInput = document.querySelector<HTMLInputElement>("#gpsRouteFile")!;
+const gpsSpeedInput = document.querySelector<HTMLInputElement>("#gpsSpeed")!;
+const gpsStatus = document.querySelector<HTMLDivElement>("#gpsStatus")!;
+const batteryLevelInput = document.querySelector<HTMLInputElement>("#batteryLevel")!;
+const batteryLevelText = document.querySelector<HTMLSpanElement>("#batteryLevelText")!;
+const batteryChargerSelect = document.querySelector<HTMLSelectElement>("#batteryCharger")!;
+const batteryHealthSelect = document.querySelector<HTMLSelectElement>("#batteryHealth")!;
+const sensorTargetSelect = document.querySelector<HTMLSelectElement>("#sensorTarget")!;
+const sensorValuesInput = document.querySelector<HTMLInputElement>("#sensorValues")!;
+const fingerprintIdInput = document.querySelector<HTMLInputElement>("#fingerprintId")!;
+const smsFromInput = document.querySelector<HTMLInputElement>("#smsFrom")!;
+const smsTextInput = document.querySelector<HTMLInputElement>("#smsText")!;
+const callNumberInput = document.querySelector<HTMLInputElement>("#callNumber")!;
+const deviceNumberInput = document.querySelector<HTMLInputElement>("#deviceNumber")!;
+const telephonyStatus = document.querySelector<HTMLDivElement>("#telephonyStatus")!;
+const logcatLevelSelect = document.querySelector<HTMLSelectElement>("#logcatLevel")!;
+const logcatTagInput = document.querySelector<HTMLInputElement>("#logcatTag")!;
+const logcatFilterInput = document.querySelector<HTMLInputElement>("#logcatFilter")!;
+const logcatPauseButton = document.querySelector<HTMLButtonElement>("#logcatPause")!;
+const logcatView = document.querySelector<HTMLDivElement>("#logcat")!;
+const audioToggleButton = document.querySelector<HTMLButtonElement>("#audioToggle")!;
+const audioVolumeInput = document.querySelector<HTMLInputElement>("#audioVolume")!;
+const micToggleButton = document.querySelector<HTMLButtonElement>("#micToggle")!;
+const displayTabs = document.querySelector<HTMLDivElement>("#displayTabs")!;
+const displayLayoutSelect = document.querySelector<HTMLSelectElement>("#displayLayout")!;
+const annotationToolSelect = document.querySelector<HTMLSelectElement>("#annotationTool")!;
+const deviceStatus = document.querySelector<HTMLDivElement>("#deviceStatus")!;
+const frameStats = document.querySelector<HTMLDivElement>("#frameStats")!;
+const frameTierSelect = document.querySelector<HTMLSelectElement>("#frameTier")!;
+const frameQualitySelect = document.querySelector<HTMLSelectElement>("#frameQuality")!;
+const hudToggleButton = document.querySelector<HTMLButtonElement>("#hudToggle")!;
+const hudView = document.querySelector<HTMLDivElement>("#hud")!;
+const displaysContainer = document.querySelector<HTMLDivElement>("#displays")!;
 
 sessionInput.value = params.get("sessionId") ?? "";
 tokenInput.value = params.get("token") ?? "";
+frameTierSelect.value = params.get("tier") ?? "full";
+if (!frameTierSelect.value) frameTierSelect.value = "full";
 
 let ws: WebSocket | null = null;
 let ownPeerId = "";
 let lockOwnerPeerId: string | null = null;
-let lastFrameUrl: string | null = null;
-let pendingFrameBlob: Blob | null = null;
-let frameRenderQueued = false;
-let lastPointerMoveSentAt = 0;
+let deviceClipboardText: string | null = null;
+let agentConnected = false;
+let lockOwnerConnected = true;
+let lockQueue: { peerId: string; requestedAt: string }[] = [];
+let resumeToken: string | null = null;
+let reconnectAttempt = 0;
+let reconnectTimer: number | null = null;
+let tokenRefreshTimer: number | null = null;
+// Scopes granted by the token, from hello_ack; signaling enforces them.
+let scopes: string[] = [];
+let deviceUnavailableReason: string | null = null;
+// The agent's current frame quality, from displays.
+let frameQuality: { mode: string; level: string } | null = null;
+let frameFeedbackSample = { received: 0, dropped: 0 };
+// Latency HUD; pings and control acks are only requested while it is shown.
+let hudTimer: number | null = null;
+let nextProbeId = 1;
+const pendingPings = new Map<number, { target: "signaling" | "agent"; sentAt: number }>();
+const pendingAcks = new Map<number, number>();
+// Send time of the last acknowledged input, until the next frame arrives.
+let inputAwaitingFrame: number | null = null;
+let hudSample: { display: number; frames: number; bytes: number; at: number } | null = null;
+const hudStats: Record<"signalingRtt" | "agentRtt" | "controlRtt" | "agentCommand" | "inputToFrame", number | null> = {
+  signalingRtt: null,
+  agentRtt: null,
+  controlRtt: null,
+  agentCommand: null,
+  inputToFrame: null,
+};
+
+// Matches the emulator's limit on concurrent touch identifiers.
+const MAX_TOUCH_POINTERS = 10;
+const TWO_FINGER_SWIPE_OFFSET = 0.1;
+// The emulator scales wheel deltas so that 120 equals one notch.
+const WHEEL_UNITS_PER_NOTCH = 120;
+const WHEEL_PIXELS_PER_NOTCH = 100;
+const WHEEL_LINES_PER_NOTCH = 3;
+const RECONNECT_INITIAL_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10_000;
+const LASER_TRAIL_MS = 1000;
+const ANNOTATION_SEND_INTERVAL_MS = 50;
+const TOKEN_REFRESH_MIN_DELAY_MS = 5000;
+const HUD_INTERVAL_MS = 1000;
+const FRAME_FEEDBACK_INTERVAL_MS = 2000;
+const PROBE_TIMEOUT_MS = 5000;
+
+// Binary messages use the agent's versioned envelope; see encodeEnvelope in
+// apps/agent for the header layout.
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_HEADER_BYTES = 32;
+const BINARY_CHANNEL_FRAME = 0x01;
+const BINARY_CHANNEL_AUDIO = 0x02;
+const BINARY_CHANNEL_MIC = 0x03;
+const IMAGE_FORMATS = ["PNG", "RGBA8888", "RGB888"];
+const ROTATIONS = ["PORTRAIT", "LANDSCAPE", "REVERSE_PORTRAIT", "REVERSE_LANDSCAPE"];
+// Audio is scheduled this far ahead to absorb network jitter; packets that
+// would play later than the max are dropped to keep latency bounded.
+const AUDIO_JITTER_BUFFER_SEC = 0.08;
+const AUDIO_MAX_LATENCY_SEC = 0.4;
+// Mic audio is resampled to what the emulator's microphone uses.
+const MIC_SAMPLE_RATE = 16_000;
+const MIC_CAPTURE_FRAMES = 2048;
+
+const MAX_LOGCAT_ENTRIES = 5000;
+const LOGCAT_LEVELS = ["VERBOSE", "DEBUG", "INFO", "WARN", "ERR", "FATAL"];
+
+type PointerAction = "down" | "move" | "up";
+type NormalizedPoint = { xNorm: number; yNorm: number };
+
+// Mirrors the agent's envelope v1 layout. Byte 28 is the frame's tier; it
+// isn't decoded since signaling only forwards the tier this peer subscribed
+// to, and mic envelopes leave it 0.
+type EnvelopeHeader = {
+  channel: number;
+  display: number;
+  format: number;
+  rotation: number;
+  seq: number;
+  width: number;
+  height: number;
+  captureTimeMs: number;
+};
+
+// Frame size as streamed (already rotated) plus the device rotation.
+type DisplayFormat = { width: number; height: number; rotation: string };
+
+// One mirrored emulator display: its frame image, annotation canvas, input
+// overlay and tab.
+type DisplayView = {
+  id: number;
+  format: DisplayFormat | null;
+  container: HTMLDivElement;
+  img: HTMLImageElement;
+  canvas: HTMLCanvasElement;
+  overlay: HTMLDivElement;
+  tab: HTMLButtonElement;
+  pendingBlob: Blob | null;
+  lastUrl: string | null;
+  renderQueued: boolean;
+  lastSeq: number | null;
+  droppedFrames: number;
+  latencyMs: number;
+  receivedFrames: number;
+  receivedBytes: number;
+  lastFrameBytes: number;
+};
+
+type GeoPoint = { latitude: number; longitude: number; altitude?: number };
+
+type AnnotationShape = "laser" | "rect" | "stroke";
+
+// A shape drawn by any peer, in frame-relative coordinates. Laser points
+// carry their arrival time so the trail can fade.
+type Annotation = {
+  peerId: string;
+  display: number;
+  shape: AnnotationShape;
+  points: { x: number; y: number; at: number }[];
+};
+
+// The shape this tab is drawing; unsent points go out in batches.
+type LocalAnnotation = {
+  id: string;
+  display: number;
+  shape: AnnotationShape;
+  pointerId: number;
+  origin: { x: number; y: number };
+  unsent: { x: number; y: number }[];
+  lastSentAt: number;
+};
+
+// A second, synthetic finger driven by a mouse drag with a modifier held.
+type SimulatedPointer = {
+  sourcePointerId: number;
+  slot: number;
+  mode: "pinch" | "swipe";
+  xOffset: number;
+};
+
+const pointerSlots = new Map<number, number>();
+const lastPointerMoveSentAt = new Map<number, number>();
+let simulatedPointer: SimulatedPointer | null = null;
+const displayViews = new Map<number, DisplayView>();
+let activeDisplayId = 0;
+let lastHoverSentAt = 0;
+let pendingWheel = { dx: 0, dy: 0, display: 0, point: null as NormalizedPoint | null };
+let wheelFlushQueued = false;
+// Keyed by `${peerId}:${id}`.
+const annotations = new Map<string, Annotation>();
+let localAnnotation: LocalAnnotation | null = null;
+let annotationSeq = 0;
+let annotationRenderQueued = false;
+let audioContext: AudioContext | null = null;
+let audioGain: GainNode | null = null;
+let audioMuted = true;
+let nextAudioTime = 0;
+let micCapture: { stream: MediaStream; context: AudioContext; processor: ScriptProcessorNode } | null = null;
+let micResampleOffset = 0;
+let micSeq = 0;
+let routePoints: GeoPoint[] = [];
+let logcatEntries: LogcatEntry[] = [];
+let logcatPaused = false;
 
 const helloAckSchema = z.object({
   t: z.literal("hello_ack"),
@@ -74,99 +459,996 @@ const helloAckSchema = z.object({
   role: z.string(),
   sessionId: z.string(),
   emulatorId: z.string(),
+  resumeToken: z.string(),
+  resumed: z.boolean(),
+  scopes: z.array(z.string()),
+  tier: z.string().optional(),
+});
+
+const deviceStateSchema = z.object({
+  t: z.literal("device_state"),
+  available: z.boolean(),
+  reason: z.string().optional(),
 });
 
 const sessionStateSchema = z.object({
   t: z.literal("session_state"),
   lockOwnerPeerId: z.string().nullable(),
-  peers: z.array(z.object({ id: z.string(), role: z.string() })),
+  lockQueue: z.array(z.object({ peerId: z.string(), requestedAt: z.string() })),
+  peers: z.array(z.object({ id: z.string(), role: z.string(), connected: z.boolean() })),
+});
+
+const displaysSchema = z.object({
+  t: z.literal("displays"),
+  displays: z.array(
+    z.object({
+      id: z.number(),
+      width: z.number(),
+      height: z.number(),
+      dpi: z.number(),
+      rotation: z.string(),
+    }),
+  ),
+  quality: z.object({ mode: z.string(), level: z.string() }).optional(),
 });
 
 const lockResultSchema = z.object({
   t: z.literal("lock_result"),
   granted: z.boolean(),
+  queued: z.boolean().optional(),
   ownerPeerId: z.string().nullable().optional(),
+  reason: z.enum(["approved", "denied", "idle", "auto_grant"]).optional(),
+});
+
+const clipboardSchema = z.object({
+  t: z.literal("clipboard"),
+  action: z.literal("update"),
+  text: z.string(),
+});
+
+const logcatEntrySchema = z.object({
+  timestamp: z.number(),
+  pid: z.number(),
+  tid: z.number(),
+  level: z.string(),
+  tag: z.string(),
+  msg: z.string(),
+});
+
+type LogcatEntry = z.infer<typeof logcatEntrySchema>;
+
+const logcatSchema = z.object({
+  t: z.literal("logcat"),
+  entries: z.array(logcatEntrySchema),
+});
+
+const locationStateSchema = z.object({
+  t: z.literal("location_state"),
+  latitude: z.number(),
+  longitude: z.number(),
+  altitude: z.number().optional(),
+  route: z
+    .object({
+      speedMps: z.number(),
+      totalMeters: z.number(),
+      progressMeters: z.number(),
+    })
+    .nullable(),
+});
+
+const controlResultSchema = z.object({
+  t: z.literal("control_result"),
+  type: z.string(),
+  action: z.string(),
+  ok: z.boolean(),
+  response: z.string(),
+});
+
+const annotationSchema = z.object({
+  t: z.literal("annotation"),
+  peerId: z.string(),
+  shape: z.enum(["laser", "rect", "stroke", "clear"]),
+  id: z.string().optional(),
+  display: z.number(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })),
+});
+
+const pongSchema = z.object({
+  t: z.literal("pong"),
+  id: z.number(),
+});
+
+const controlAckSchema = z.object({
+  t: z.literal("control_ack"),
+  ackId: z.number(),
+  agentMs: z.number(),
 });
 
 const errorSchema = z.object({
   t: z.literal("error"),
   message: z.string(),
+  code: z.string().optional(),
+  scope: z.string().optional(),
 });
 
+const encodeEnvelope = (header: EnvelopeHeader, payload: Uint8Array): ArrayBuffer => {
+  const buffer = new ArrayBuffer(ENVELOPE_HEADER_BYTES + payload.byteLength);
+  const view = new DataView(buffer);
+  view.setUint8(0, ENVELOPE_VERSION);
+  view.setUint8(1, header.channel);
+  view.setUint16(2, ENVELOPE_HEADER_BYTES, true);
+  view.setUint16(4, header.display, true);
+  view.setUint8(6, header.format);
+  view.setUint8(7, header.rotation);
+  view.setUint32(8, header.seq >>> 0, true);
+  view.setUint32(12, header.width, true);
+  view.setUint32(16, header.height, true);
+  view.setFloat64(20, header.captureTimeMs, true);
+  new Uint8Array(buffer, ENVELOPE_HEADER_BYTES).set(payload);
+  return buffer;
+};
+
+const decodeEnvelope = (buffer: ArrayBuffer): { header: EnvelopeHeader; payloadOffset: number } | null => {
+  if (buffer.byteLength < ENVELOPE_HEADER_BYTES) return null;
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== ENVELOPE_VERSION) return null;
+  const headerBytes = view.getUint16(2, true);
+  if (headerBytes < ENVELOPE_HEADER_BYTES || headerBytes > buffer.byteLength) return null;
+  return {
+    header: {
+      channel: view.getUint8(1),
+      display: view.getUint16(4, true),
+      format: view.getUint8(6),
+      rotation: view.getUint8(7),
+      seq: view.getUint32(8, true),
+      width: view.getUint32(12, true),
+      height: view.getUint32(16, true),
+      captureTimeMs: view.getFloat64(20, true),
+    },
+    payloadOffset: headerBytes,
+  };
+};
+
 const send = (payload: unknown): void => {
   if (ws && ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(payload));
   }
 };
 
+const hasControl = (): boolean => ownPeerId !== "" && lockOwnerPeerId === ownPeerId;
+
 const setLockStatus = (): void => {
-  const youOwn = ownPeerId && lockOwnerPeerId === ownPeerId;
-  lockStatus.textContent = youOwn ? "You have control" : lockOwnerPeerId ? "View-only mode" : "No active controller";
+  const youOwn = hasControl();
+  lockStatus.textContent = youOwn
+    ? "You have control"
+    : lockOwnerPeerId
+      ? lockOwnerConnected
+        ? "View-only mode"
+        : "View-only mode (controller reconnecting)"
+      : "No active controller";
+  requestLockButton.disabled = !scopes.includes("lock");
+  // Signaling would deny these anyway; buttons carry the scope they need.
+  for (const button of document.querySelectorAll<HTMLButtonElement>("button[data-scope]")) {
+    button.disabled = !scopes.includes(button.dataset.scope ?? "");
+  }
+  // Quality applies to the full tier every full-tier peer shares, so only the
+  // lock owner sets it.
+  frameQualitySelect.disabled = !youOwn;
+  renderLockQueue();
+};
+
+// The owner gets approve/deny buttons for each waiting peer; a waiting
+// peer sees its position and can cancel.
+const renderLockQueue = (): void => {
+  lockQueueList.replaceChildren();
+  if (!ownPeerId || lockQueue.length === 0) return;
+
+  const button = (label: string, action: string, peerId?: string): HTMLButtonElement => {
+    const el = document.createElement("button");
+    el.className = "secondary";
+    el.textContent = label;
+    el.addEventListener("click", () => send({ t: "lock", action, peerId }));
+    return el;
+  };
+
+  if (hasControl()) {
+    for (const request of lockQueue) {
+      const label = document.createElement("span");
+      label.textContent = `${request.peerId.slice(0, 8)} wants control since ${new Date(request.requestedAt).toLocaleTimeString()}`;
+      lockQueueList.append(label, button("Approve", "approve", request.peerId), button("Deny", "deny", request.peerId));
+    }
+    return;
+  }
+
+  const position = lockQueue.findIndex((r) => r.peerId === ownPeerId);
+  const label = document.createElement("span");
+  if (position >= 0) {
+    label.textContent = `Waiting for control (${position + 1} of ${lockQueue.length})`;
+    lockQueueList.append(label, button("Cancel request", "cancel"));
+  } else {
+    label.textContent = `${lockQueue.length} waiting for control`;
+    lockQueueList.append(label);
+  }
+};
+
+// Frames stop whenever the agent is reconnecting or the emulator restarts;
+// say so instead of leaving the last frame up as if it were live.
+const setDeviceStatus = (): void => {
+  const message =
+    reconnectTimer !== null
+      ? "Connection lost, reconnecting…"
+      : !ownPeerId
+        ? ""
+        : !agentConnected
+          ? "Device agent disconnected, waiting for it to reconnect…"
+          : deviceUnavailableReason !== null
+            ? `Device temporarily unavailable (${deviceUnavailableReason}), reconnecting…`
+            : "";
+  deviceStatus.textContent = message;
+  displaysContainer.classList.toggle("unavailable", message !== "");
+};
+
+const clampNorm = (value: number): number => Math.min(1, Math.max(0, value));
+
+const setClipboardStatus = (): void => {
+  if (deviceClipboardText === null) {
+    clipboardStatus.textContent = "";
+    return;
+  }
+  const preview = deviceClipboardText.length > 60 ? `${deviceClipboardText.slice(0, 60)}…` : deviceClipboardText;
+  clipboardStatus.textContent = `Device clipboard: ${preview || "(empty)"}`;
+};
+
+const wheelDeltaToUnits = (delta: number, deltaMode: number): number => {
+  if (deltaMode === WheelEvent.DOM_DELTA_LINE) return (delta / WHEEL_LINES_PER_NOTCH) * WHEEL_UNITS_PER_NOTCH;
+  if (deltaMode === WheelEvent.DOM_DELTA_PAGE) return delta * WHEEL_UNITS_PER_NOTCH;
+  return (delta / WHEEL_PIXELS_PER_NOTCH) * WHEEL_UNITS_PER_NOTCH;
+};
+
+// Trackpads fire many tiny wheel events; sum them and send once per frame.
+const queueWheelFlush = (): void => {
+  if (wheelFlushQueued) return;
+  wheelFlushQueued = true;
+  requestAnimationFrame(() => {
+    wheelFlushQueued = false;
+    const dx = Math.round(pendingWheel.dx);
+    const dy = Math.round(pendingWheel.dy);
+    const { display, point } = pendingWheel;
+    pendingWheel = { dx: 0, dy: 0, display, point: null };
+    if (dx === 0 && dy === 0) return;
+    send({ t: "control", event: { type: "wheel", dx, dy, display, ...point } });
+  });
+};
+
+// Where the letterboxed image (object-fit: contain) sits inside a box of
+// the given size.
+const contentBox = (view: DisplayView, width: number, height: number) => {
+  const frameWidth = view.format?.width || view.img.naturalWidth || width;
+  const frameHeight = view.format?.height || view.img.naturalHeight || height;
+  const scale = Math.min(width / frameWidth, height / frameHeight);
+  const contentWidth = frameWidth * scale;
+  const contentHeight = frameHeight * scale;
+  return { left: (width - contentWidth) / 2, top: (height - contentHeight) / 2, width: contentWidth, height: contentHeight };
 };
 
-const normalizedPoint = (event: PointerEvent): { xNorm: number; yNorm: number } => {
-  const rect = overlay.getBoundingClientRect();
-  const xNorm = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
-  const yNorm = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
-  return { xNorm, yNorm };
+// A pointer position relative to the image as displayed, which is what
+// annotations share since every peer sees the same rotated frame.
+const framePoint = (view: DisplayView, event: MouseEvent): { x: number; y: number } => {
+  const rect = view.overlay.getBoundingClientRect();
+  const box = contentBox(view, rect.width, rect.height);
+  return {
+    x: clampNorm((event.clientX - rect.left - box.left) / box.width),
+    y: clampNorm((event.clientY - rect.top - box.top) / box.height),
+  };
 };
 
-const sendPointer = (action: "down" | "move" | "up", event: PointerEvent): void => {
-  const point = normalizedPoint(event);
+// Maps a pointer into the letterboxed image, then from the frame's rotation
+// back to the device's natural orientation, which is the coordinate space
+// touch injection uses.
+const normalizedPoint = (view: DisplayView, event: MouseEvent): NormalizedPoint => {
+  const { x: u, y: v } = framePoint(view, event);
+
+  switch (view.format?.rotation) {
+    case "LANDSCAPE":
+      return { xNorm: 1 - v, yNorm: u };
+    case "REVERSE_PORTRAIT":
+      return { xNorm: 1 - u, yNorm: 1 - v };
+    case "REVERSE_LANDSCAPE":
+      return { xNorm: v, yNorm: 1 - u };
+    default:
+      return { xNorm: u, yNorm: v };
+  }
+};
+
+const allocateSlot = (): number | null => {
+  const used = new Set(pointerSlots.values());
+  if (simulatedPointer) used.add(simulatedPointer.slot);
+  for (let slot = 0; slot < MAX_TOUCH_POINTERS; slot += 1) {
+    if (!used.has(slot)) return slot;
+  }
+  return null;
+};
+
+// Pinch mirrors the real pointer through the screen centre, so dragging
+// towards or around the centre zooms or rotates; swipe keeps a fixed offset.
+const simulatedPoint = (sim: SimulatedPointer, point: NormalizedPoint): NormalizedPoint => {
+  if (sim.mode === "pinch") {
+    return { xNorm: 1 - point.xNorm, yNorm: 1 - point.yNorm };
+  }
+  return { xNorm: clampNorm(point.xNorm + sim.xOffset), yNorm: point.yNorm };
+};
+
+// Tags a control event so the agent acknowledges it, while the HUD is shown.
+const controlAckId = (): number | undefined => {
+  if (hudTimer === null) return undefined;
+  const id = nextProbeId++;
+  pendingAcks.set(id, performance.now());
+  return id;
+};
+
+const sendPointer = (action: PointerAction, pointerId: number, display: number, point: NormalizedPoint): void => {
   send({
     t: "control",
+    ackId: action === "move" ? undefined : controlAckId(),
     event: {
       type: "pointer",
       action,
+      pointerId,
+      display,
       ...point,
       timestampMs: Date.now(),
     },
   });
 };
 
-overlay.addEventListener("pointerdown", (event) => {
-  event.preventDefault();
-  overlay.setPointerCapture(event.pointerId);
-  sendPointer("down", event);
-});
+const dispatchPointer = (view: DisplayView, action: PointerAction, event: PointerEvent, slot: number): void => {
+  const point = normalizedPoint(view, event);
+  sendPointer(action, slot, view.id, point);
+  if (simulatedPointer && simulatedPointer.sourcePointerId === event.pointerId) {
+    sendPointer(action, simulatedPointer.slot, view.id, simulatedPoint(simulatedPointer, point));
+  }
+};
+
+const endPointer = (view: DisplayView, event: PointerEvent): void => {
+  const slot = pointerSlots.get(event.pointerId);
+  if (slot === undefined) return;
+  dispatchPointer(view, "up", event, slot);
+  pointerSlots.delete(event.pointerId);
+  lastPointerMoveSentAt.delete(event.pointerId);
+  if (simulatedPointer?.sourcePointerId === event.pointerId) {
+    simulatedPointer = null;
+  }
+};
+
+const peerColor = (peerId: string): string => {
+  let hash = 0;
+  for (const ch of peerId) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return `hsl(${hash % 360} 85% 55%)`;
+};
+
+const queueAnnotationRender = (): void => {
+  if (annotationRenderQueued) return;
+  annotationRenderQueued = true;
+  requestAnimationFrame(renderAnnotations);
+};
+
+// Redraws every display's canvas; keeps animating while laser trails fade.
+const renderAnnotations = (): void => {
+  annotationRenderQueued = false;
+  const now = Date.now();
+  let fading = false;
+
+  for (const [key, annotation] of annotations) {
+    if (annotation.shape !== "laser") continue;
+    annotation.points = annotation.points.filter((p) => now - p.at < LASER_TRAIL_MS);
+    if (annotation.points.length === 0) annotations.delete(key);
+    else fading = true;
+  }
+
+  for (const view of displayViews.values()) {
+    const { canvas } = view;
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+    }
+    const ctx = canvas.getContext("2d");
+    if (!ctx) continue;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const box = contentBox(view, width, height);
+    const toCanvas = (p: { x: number; y: number }) => [box.left + p.x * box.width, box.top + p.y * box.height] as const;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    for (const annotation of annotations.values()) {
+      if (annotation.display !== view.id || annotation.points.length === 0) continue;
+      const color = peerColor(annotation.peerId);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+
+      if (annotation.shape === "rect") {
+        const [x1, y1] = toCanvas(annotation.points[0]);
+        const [x2, y2] = toCanvas(annotation.points[annotation.points.length - 1]);
+        ctx.globalAlpha = 1;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+        continue;
+      }
+
+      ctx.lineWidth = annotation.shape === "laser" ? 5 : 3;
+      for (let i = 1; i < annotation.points.length; i += 1) {
+        const point = annotation.points[i];
+        ctx.globalAlpha = annotation.shape === "laser" ? 1 - (now - point.at) / LASER_TRAIL_MS : 1;
+        ctx.beginPath();
+        ctx.moveTo(...toCanvas(annotation.points[i - 1]));
+        ctx.lineTo(...toCanvas(point));
+        ctx.stroke();
+      }
+      if (annotation.shape === "laser") {
+        const last = annotation.points[annotation.points.length - 1];
+        ctx.globalAlpha = 1 - (now - last.at) / LASER_TRAIL_MS;
+        ctx.beginPath();
+        ctx.arc(...toCanvas(last), 6, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  if (fading) queueAnnotationRender();
+};
+
+// Rectangles are sent as their two corners, so each update replaces the
+// previous one; laser and freehand points extend the shape.
+const applyAnnotation = (peerId: string, id: string, display: number, shape: AnnotationShape, points: { x: number; y: number }[]): void => {
+  const key = `${peerId}:${id}`;
+  const at = Date.now();
+  const annotation = annotations.get(key) ?? { peerId, display, shape, points: [] };
+  const stamped = points.map((p) => ({ x: p.x, y: p.y, at }));
+  annotation.points = shape === "rect" ? stamped : [...annotation.points, ...stamped];
+  annotations.set(key, annotation);
+  queueAnnotationRender();
+};
+
+const clearAnnotations = (): void => {
+  annotations.clear();
+  queueAnnotationRender();
+};
+
+const flushAnnotation = (): void => {
+  if (!localAnnotation || localAnnotation.unsent.length === 0) return;
+  const { id, display, shape, origin, unsent } = localAnnotation;
+  const points = shape === "rect" ? [origin, unsent[unsent.length - 1]] : unsent;
+  send({ t: "annotation", shape, id, display, points });
+  localAnnotation.unsent = [];
+  localAnnotation.lastSentAt = performance.now();
+};
+
+const addAnnotationPoint = (view: DisplayView, event: PointerEvent): void => {
+  if (!localAnnotation) return;
+  const { id, shape, origin } = localAnnotation;
+  const point = framePoint(view, event);
+  applyAnnotation(ownPeerId, id, view.id, shape, shape === "rect" ? [origin, point] : [point]);
+  localAnnotation.unsent.push(point);
+  if (performance.now() - localAnnotation.lastSentAt >= ANNOTATION_SEND_INTERVAL_MS) flushAnnotation();
+};
+
+const attachPointerHandlers = (view: DisplayView): void => {
+  const { overlay } = view;
 
-overlay.addEventListener("pointermove", (event) => {
-  if ((event.buttons & 1) === 1) {
+  overlay.addEventListener("pointerdown", (event) => {
+    event.preventDefault();
+    const tool = annotationToolSelect.value;
+    if (tool !== "off") {
+      if (!ownPeerId || localAnnotation) return;
+      overlay.setPointerCapture(event.pointerId);
+      annotationSeq += 1;
+      localAnnotation = {
+        id: String(annotationSeq),
+        display: view.id,
+        shape: tool as AnnotationShape,
+        pointerId: event.pointerId,
+        origin: framePoint(view, event),
+        unsent: [],
+        lastSentAt: 0,
+      };
+      addAnnotationPoint(view, event);
+      return;
+    }
+
+    const slot = allocateSlot();
+    if (slot === null) return;
+    overlay.setPointerCapture(event.pointerId);
+    pointerSlots.set(event.pointerId, slot);
+
+    if (event.pointerType === "mouse" && (event.ctrlKey || event.shiftKey)) {
+      const companionSlot = allocateSlot();
+      if (companionSlot !== null) {
+        const { xNorm } = normalizedPoint(view, event);
+        simulatedPointer = {
+          sourcePointerId: event.pointerId,
+          slot: companionSlot,
+          mode: event.ctrlKey ? "pinch" : "swipe",
+          xOffset: xNorm + TWO_FINGER_SWIPE_OFFSET > 1 ? -TWO_FINGER_SWIPE_OFFSET : TWO_FINGER_SWIPE_OFFSET,
+        };
+      }
+    }
+
+    dispatchPointer(view, "down", event, slot);
+  });
+
+  overlay.addEventListener("pointermove", (event) => {
+    if (localAnnotation?.pointerId === event.pointerId) {
+      addAnnotationPoint(view, event);
+      return;
+    }
+    if (annotationToolSelect.value !== "off") return;
+
+    if (event.pointerType === "mouse" && event.buttons === 0) {
+      // Hover fires constantly; don't spam lock errors for view-only peers.
+      if (!hasControl()) return;
+      const now = performance.now();
+      if (now - lastHoverSentAt < 16) return;
+      lastHoverSentAt = now;
+      send({ t: "control", event: { type: "hover", display: view.id, ...normalizedPoint(view, event) } });
+      return;
+    }
+
+    const slot = pointerSlots.get(event.pointerId);
+    if (slot === undefined || (event.buttons & 1) !== 1) return;
     const now = performance.now();
-    if (now - lastPointerMoveSentAt < 16) {
+    if (now - (lastPointerMoveSentAt.get(event.pointerId) ?? 0) < 16) {
       return;
     }
-    lastPointerMoveSentAt = now;
-    sendPointer("move", event);
+    lastPointerMoveSentAt.set(event.pointerId, now);
+    dispatchPointer(view, "move", event, slot);
+  });
+
+  const endAnnotation = (event: PointerEvent): boolean => {
+    if (localAnnotation?.pointerId !== event.pointerId) return false;
+    flushAnnotation();
+    localAnnotation = null;
+    return true;
+  };
+
+  overlay.addEventListener("pointerup", (event) => {
+    event.preventDefault();
+    if (endAnnotation(event)) return;
+    endPointer(view, event);
+  });
+
+  overlay.addEventListener("pointercancel", (event) => {
+    if (endAnnotation(event)) return;
+    endPointer(view, event);
+  });
+
+  overlay.addEventListener(
+    "wheel",
+    (event) => {
+      event.preventDefault();
+      if (!hasControl()) return;
+      if (pendingWheel.display !== view.id) {
+        pendingWheel = { dx: 0, dy: 0, display: view.id, point: null };
+      }
+      // Browser deltas grow when scrolling down/right; the emulator's grow up/left.
+      pendingWheel.dx -= wheelDeltaToUnits(event.deltaX, event.deltaMode);
+      pendingWheel.dy -= wheelDeltaToUnits(event.deltaY, event.deltaMode);
+      pendingWheel.point = normalizedPoint(view, event);
+      queueWheelFlush();
+    },
+    { passive: false },
+  );
+};
+
+const parseRoute = (text: string): GeoPoint[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("Route file is not valid XML");
   }
-});
 
-overlay.addEventListener("pointerup", (event) => {
-  event.preventDefault();
-  sendPointer("up", event);
-});
+  // GPX: prefer track points, then route points, then waypoints.
+  for (const selector of ["trkpt", "rtept", "wpt"]) {
+    const gpxPoints = [...doc.querySelectorAll(selector)].map((el) => ({
+      latitude: Number(el.getAttribute("lat")),
+      longitude: Number(el.getAttribute("lon")),
+      altitude: Number(el.querySelector("ele")?.textContent ?? 0),
+    }));
+    if (gpxPoints.length > 0) return gpxPoints.filter((p) => Number.isFinite(p.latitude) && Number.isFinite(p.longitude));
+  }
+
+  // KML: whitespace-separated "lon,lat[,alt]" tuples.
+  const kmlPoints = [...doc.querySelectorAll("coordinates")].flatMap((el) =>
+    (el.textContent ?? "")
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => {
+        const [longitude, latitude, altitude] = tuple.split(",").map(Number);
+        return { latitude, longitude, altitude: altitude ?? 0 };
+      }),
+  );
+  return kmlPoints.filter((p) => Number.isFinite(p.latitude) && Number.isFinite(p.longitude));
+};
+
+const showLocationState = (state: z.infer<typeof locationStateSchema>): void => {
+  gpsLatInput.value = state.latitude.toFixed(6);
+  gpsLngInput.value = state.longitude.toFixed(6);
+  gpsAltInput.value = String(Math.round(state.altitude ?? 0));
+  const position = `${state.latitude.toFixed(5)}, ${state.longitude.toFixed(5)}`;
+  if (!state.route) {
+    gpsStatus.textContent = `Device location: ${position}`;
+    return;
+  }
+  const percent = Math.round((state.route.progressMeters / Math.max(1, state.route.totalMeters)) * 100);
+  const kmh = Math.round(state.route.speedMps * 3.6);
+  gpsStatus.textContent = `Route playback ${percent}% at ${kmh} km/h: ${position}`;
+};
 
-const queueFrameRender = (): void => {
-  if (frameRenderQueued) return;
-  frameRenderQueued = true;
+const logcatMatcher = (): ((entry: LogcatEntry) => boolean) => {
+  const minLevel = LOGCAT_LEVELS.indexOf(logcatLevelSelect.value);
+  const tag = logcatTagInput.value.trim().toLowerCase();
+  let pattern: RegExp | null = null;
+  try {
+    pattern = logcatFilterInput.value ? new RegExp(logcatFilterInput.value, "i") : null;
+    logcatFilterInput.classList.remove("invalid");
+  } catch {
+    logcatFilterInput.classList.add("invalid");
+  }
+
+  return (entry) =>
+    Math.max(0, LOGCAT_LEVELS.indexOf(entry.level)) >= minLevel &&
+    (!tag || entry.tag.toLowerCase().includes(tag)) &&
+    (!pattern || pattern.test(entry.msg) || pattern.test(entry.tag));
+};
+
+const formatLogcatEntry = (entry: LogcatEntry): string => {
+  const time = new Date(entry.timestamp).toISOString().replace("T", " ").slice(0, -1);
+  return `${time} ${entry.pid} ${entry.tid} ${entry.level.charAt(0)} ${entry.tag}: ${entry.msg}`;
+};
+
+const appendLogcatRows = (entries: LogcatEntry[]): void => {
+  const stickToBottom = logcatView.scrollTop + logcatView.clientHeight >= logcatView.scrollHeight - 8;
+  const fragment = document.createDocumentFragment();
+  for (const entry of entries) {
+    const row = document.createElement("div");
+    row.className = `log-${entry.level}`;
+    row.textContent = formatLogcatEntry(entry);
+    fragment.appendChild(row);
+  }
+  logcatView.appendChild(fragment);
+  while (logcatView.childElementCount > MAX_LOGCAT_ENTRIES) {
+    logcatView.firstElementChild?.remove();
+  }
+  if (stickToBottom) {
+    logcatView.scrollTop = logcatView.scrollHeight;
+  }
+};
+
+const renderLogcat = (): void => {
+  logcatView.replaceChildren();
+  appendLogcatRows(logcatEntries.filter(logcatMatcher()));
+};
+
+// Entries keep buffering while paused so resume shows nothing missing.
+const receiveLogcat = (entries: LogcatEntry[]): void => {
+  logcatEntries.push(...entries);
+  if (logcatEntries.length > MAX_LOGCAT_ENTRIES) {
+    logcatEntries = logcatEntries.slice(-MAX_LOGCAT_ENTRIES);
+  }
+  if (!logcatPaused) {
+    appendLogcatRows(entries.filter(logcatMatcher()));
+  }
+};
+
+const exportLogcat = (): void => {
+  const text = logcatEntries.filter(logcatMatcher()).map(formatLogcatEntry).join("\n");
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `logcat-${new Date().toISOString().replace(/[:.]/g, "-")}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// AudioContext must be created from a user gesture, so it is built lazily on
+// the first unmute.
+const ensureAudioContext = (): AudioContext => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+    audioGain = audioContext.createGain();
+    audioGain.connect(audioContext.destination);
+  }
+  return audioContext;
+};
+
+const setAudioMuted = (muted: boolean): void => {
+  audioMuted = muted;
+  audioToggleButton.textContent = muted ? "Unmute" : "Mute";
+  if (!muted) {
+    void ensureAudioContext().resume();
+  }
+  if (audioGain) {
+    audioGain.gain.value = muted ? 0 : Number(audioVolumeInput.value);
+  }
+};
+
+const playAudioPacket = (header: EnvelopeHeader, data: DataView): void => {
+  if (audioMuted || !audioContext || !audioGain) return;
+
+  const sampleRate = header.width;
+  const channels = header.format;
+  const frameCount = channels > 0 ? Math.floor(data.byteLength / (2 * channels)) : 0;
+  if (sampleRate === 0 || channels === 0 || frameCount === 0) return;
+
+  const now = audioContext.currentTime;
+  if (nextAudioTime < now) {
+    nextAudioTime = now + AUDIO_JITTER_BUFFER_SEC;
+  }
+  if (nextAudioTime - now > AUDIO_MAX_LATENCY_SEC) {
+    return;
+  }
+
+  const buffer = audioContext.createBuffer(channels, frameCount, sampleRate);
+  for (let channel = 0; channel < channels; channel += 1) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i += 1) {
+      samples[i] = data.getInt16((i * channels + channel) * 2, true) / 32768;
+    }
+  }
+
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(audioGain);
+  source.start(nextAudioTime);
+  nextAudioTime += buffer.duration;
+};
+
+// Linear interpolation; the fractional read position carries over between
+// chunks so consecutive packets join without clicks.
+const resampleToPcm16 = (input: Float32Array, fromRate: number): Int16Array => {
+  const step = fromRate / MIC_SAMPLE_RATE;
+  const output = new Int16Array(Math.ceil((input.length - micResampleOffset) / step) + 1);
+  let written = 0;
+  let pos = micResampleOffset;
+  for (; pos < input.length; pos += step) {
+    const index = Math.floor(pos);
+    const next = input[Math.min(index + 1, input.length - 1)];
+    const sample = input[index] + (next - input[index]) * (pos - index);
+    output[written] = Math.max(-1, Math.min(1, sample)) * 0x7fff;
+    written += 1;
+  }
+  micResampleOffset = pos - input.length;
+  return output.subarray(0, written);
+};
+
+const sendMicPacket = (pcm: Int16Array): void => {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+  const samples = new DataView(new ArrayBuffer(pcm.byteLength));
+  pcm.forEach((sample, i) => samples.setInt16(i * 2, sample, true));
+  micSeq += 1;
+  ws.send(
+    encodeEnvelope(
+      {
+        channel: BINARY_CHANNEL_MIC,
+        display: 0,
+        format: 1,
+        rotation: 0,
+        seq: micSeq,
+        width: MIC_SAMPLE_RATE,
+        height: 0,
+        captureTimeMs: Date.now(),
+      },
+      new Uint8Array(samples.buffer),
+    ),
+  );
+};
+
+const stopMic = (): void => {
+  if (!micCapture) return;
+  micCapture.processor.disconnect();
+  micCapture.stream.getTracks().forEach((track) => track.stop());
+  void micCapture.context.close();
+  micCapture = null;
+  micToggleButton.textContent = "Mic off";
+};
+
+const startMic = async (): Promise<void> => {
+  if (micCapture) return;
+  if (!hasControl()) {
+    statusText.textContent = "Take control to use the microphone";
+    return;
+  }
+
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const processor = context.createScriptProcessor(MIC_CAPTURE_FRAMES, 1, 1);
+    micResampleOffset = 0;
+    processor.addEventListener("audioprocess", (event) => {
+      sendMicPacket(resampleToPcm16(event.inputBuffer.getChannelData(0), context.sampleRate));
+    });
+    source.connect(processor);
+    // Processing only runs while connected to a destination; output is silent.
+    processor.connect(context.destination);
+    micCapture = { stream, context, processor };
+    micToggleButton.textContent = "Mic on";
+  } catch {
+    statusText.textContent = "Microphone access denied";
+  }
+};
+
+const selectDisplay = (id: number): void => {
+  activeDisplayId = id;
+  const sideBySide = displayLayoutSelect.value === "side";
+  for (const view of displayViews.values()) {
+    view.container.hidden = !sideBySide && view.id !== activeDisplayId;
+    view.tab.classList.toggle("active", view.id === activeDisplayId);
+  }
+  setFrameStats();
+  queueAnnotationRender();
+};
+
+const ensureDisplayView = (id: number): DisplayView => {
+  const existing = displayViews.get(id);
+  if (existing) return existing;
+
+  const container = document.createElement("div");
+  container.className = "viewer";
+  const img = document.createElement("img");
+  img.alt = `Android display ${id}`;
+  const canvas = document.createElement("canvas");
+  canvas.className = "annotations";
+  const overlay = document.createElement("div");
+  overlay.className = "overlay";
+  container.append(img, canvas, overlay);
+
+  const tab = document.createElement("button");
+  tab.className = "secondary tab";
+  tab.textContent = id === 0 ? "Main display" : `Display ${id}`;
+  tab.addEventListener("click", () => selectDisplay(id));
+
+  const view: DisplayView = {
+    id,
+    format: null,
+    container,
+    img,
+    canvas,
+    overlay,
+    tab,
+    pendingBlob: null,
+    lastUrl: null,
+    renderQueued: false,
+    lastSeq: null,
+    droppedFrames: 0,
+    latencyMs: 0,
+    receivedFrames: 0,
+    receivedBytes: 0,
+    lastFrameBytes: 0,
+  };
+  displayViews.set(id, view);
+  attachPointerHandlers(view);
+
+  const ordered = [...displayViews.values()].sort((a, b) => a.id - b.id);
+  displaysContainer.replaceChildren(...ordered.map((v) => v.container));
+  displayTabs.replaceChildren(...ordered.map((v) => v.tab));
+  selectDisplay(activeDisplayId);
+  return view;
+};
+
+const applyDisplayFormat = (view: DisplayView, format: DisplayFormat): void => {
+  view.format = format;
+  view.container.style.aspectRatio = `${format.width} / ${format.height}`;
+  view.container.style.width = format.width > format.height ? "min(100%, 760px)" : "";
+  queueAnnotationRender();
+};
+
+const removeDisplayView = (id: number): void => {
+  const view = displayViews.get(id);
+  if (!view || id === 0) return;
+  if (view.lastUrl) URL.revokeObjectURL(view.lastUrl);
+  view.container.remove();
+  view.tab.remove();
+  displayViews.delete(id);
+  if (activeDisplayId === id) selectDisplay(0);
+};
+
+const setFrameStats = (): void => {
+  const view = displayViews.get(activeDisplayId);
+  if (!view?.format || view.lastSeq === null) {
+    frameStats.textContent = "";
+    return;
+  }
+  const { width, height, rotation } = view.format;
+  const quality = frameQuality ? ` · quality ${frameQuality.level}${frameQuality.mode === "auto" ? " (auto)" : ""}` : "";
+  frameStats.textContent = `${width}x${height} ${rotation.toLowerCase()} · seq ${view.lastSeq} · dropped ${view.droppedFrames} · latency ${Math.round(view.latencyMs)} ms${quality}`;
+};
+
+// Frames received and lost since the last report feed the agent's adaptive
+// quality.
+const frameTotals = (): { received: number; dropped: number } => {
+  const totals = { received: 0, dropped: 0 };
+  for (const view of displayViews.values()) {
+    totals.received += view.receivedFrames;
+    totals.dropped += view.droppedFrames;
+  }
+  return totals;
+};
+
+const sendFrameFeedback = (): void => {
+  const totals = frameTotals();
+  const received = Math.max(0, totals.received - frameFeedbackSample.received);
+  const dropped = Math.max(0, totals.dropped - frameFeedbackSample.dropped);
+  frameFeedbackSample = totals;
+  if (received + dropped > 0) send({ t: "frame_feedback", received, dropped });
+};
+
+// A new tier or quality level means new streams whose seq starts over, so
+// drop counting starts again from their first frame.
+const resetFrameCounters = (): void => {
+  for (const view of displayViews.values()) {
+    view.lastSeq = null;
+    view.droppedFrames = 0;
+  }
+  frameFeedbackSample = frameTotals();
+  setFrameStats();
+};
+
+// Latency compares the emulator's capture timestamp with the local clock, so
+// it is only meaningful when browser and emulator host clocks agree.
+const receiveFrame = (header: EnvelopeHeader, payload: Uint8Array<ArrayBuffer>): void => {
+  const view = ensureDisplayView(header.display);
+  view.droppedFrames += countDroppedFrames(view.lastSeq, header.seq);
+  view.lastSeq = header.seq;
+  view.latencyMs = Date.now() - header.captureTimeMs;
+  view.receivedFrames += 1;
+  view.receivedBytes += payload.byteLength;
+  view.lastFrameBytes = payload.byteLength;
+  if (inputAwaitingFrame !== null) {
+    hudStats.inputToFrame = performance.now() - inputAwaitingFrame;
+    inputAwaitingFrame = null;
+  }
+
+  const rotation = ROTATIONS[header.rotation] ?? "PORTRAIT";
+  const { format } = view;
+  if (!format || format.width !== header.width || format.height !== header.height || format.rotation !== rotation) {
+    applyDisplayFormat(view, { width: header.width, height: header.height, rotation });
+  }
+
+  const mime = IMAGE_FORMATS[header.format] === "PNG" ? "image/png" : "application/octet-stream";
+  view.pendingBlob = new Blob([payload], { type: mime });
+  queueFrameRender(view);
+};
+
+const queueFrameRender = (view: DisplayView): void => {
+  if (view.renderQueued) return;
+  view.renderQueued = true;
   requestAnimationFrame(() => {
-    frameRenderQueued = false;
-    if (!pendingFrameBlob) return;
-
-    const nextFrameUrl = URL.createObjectURL(pendingFrameBlob);
-    pendingFrameBlob = null;
-    frameImg.src = nextFrameUrl;
-    if (lastFrameUrl) {
-      URL.revokeObjectURL(lastFrameUrl);
+    view.renderQueued = false;
+    if (!view.pendingBlob) return;
+
+    const nextFrameUrl = URL.createObjectURL(view.pendingBlob);
+    view.pendingBlob = null;
+    view.img.src = nextFrameUrl;
+    if (view.lastUrl) {
+      URL.revokeObjectURL(view.lastUrl);
     }
-    lastFrameUrl = nextFrameUrl;
+    view.lastUrl = nextFrameUrl;
+    if (view.id === activeDisplayId) setFrameStats();
   });
 };
 
 window.addEventListener("keydown", (event) => {
   if (event.repeat) return;
+  if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
   send({
     t: "control",
+    ackId: controlAckId(),
     event: {
       type: "key",
       action: "down",
@@ -176,7 +1458,122 @@ window.addEventListener("keydown", (event) => {
   });
 });
 
-const connect = (): void => {
+// Reads exp without verifying; signaling is the one that checks the token.
+const tokenExpiresAt = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob((token.split(".")[1] ?? "").replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const stopTokenRefresh = (): void => {
+  if (tokenRefreshTimer !== null) {
+    window.clearTimeout(tokenRefreshTimer);
+    tokenRefreshTimer = null;
+  }
+};
+
+// Access tokens are short-lived, so the token is exchanged halfway through
+// its lifetime and written back to the field and URL; reconnects and reloads
+// then present the fresh one. A rejected refresh is left for the next hello.
+const scheduleTokenRefresh = (): void => {
+  stopTokenRefresh();
+  const token = tokenInput.value.trim();
+  const expiresAt = tokenExpiresAt(token);
+  if (expiresAt === null) return;
+
+  const delay = Math.max(TOKEN_REFRESH_MIN_DELAY_MS, (expiresAt - Date.now()) / 2);
+  tokenRefreshTimer = window.setTimeout(async () => {
+    tokenRefreshTimer = null;
+    try {
+      const response = await fetch(new URL("/api/tokens/refresh", signalingInput.value.trim()), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      if (response.status >= 400 && response.status < 500) return;
+      if (!response.ok) throw new Error(`refresh failed: ${response.status}`);
+      const { token: refreshed } = (await response.json()) as { token: string };
+      if (tokenInput.value.trim() !== token) return;
+      tokenInput.value = refreshed;
+      send({ t: "token_update", token: refreshed });
+      const url = new URL(window.location.href);
+      url.searchParams.set("token", refreshed);
+      window.history.replaceState(null, "", url);
+    } catch (error) {
+      console.error("token refresh failed", error);
+    }
+    scheduleTokenRefresh();
+  }, delay);
+};
+
+const formatMs = (ms: number | null): string => (ms === null ? "–" : `${Math.round(ms)} ms`);
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const renderHud = (): void => {
+  const now = performance.now();
+  const view = displayViews.get(activeDisplayId);
+  let fps = 0;
+  let bytesPerSec = 0;
+  if (view && hudSample?.display === view.id) {
+    const elapsedSec = (now - hudSample.at) / 1000;
+    fps = (view.receivedFrames - hudSample.frames) / elapsedSec;
+    bytesPerSec = (view.receivedBytes - hudSample.bytes) / elapsedSec;
+  }
+  hudSample = view ? { display: view.id, frames: view.receivedFrames, bytes: view.receivedBytes, at: now } : null;
+
+  const agentCommand = hudStats.agentCommand === null ? "" : ` (agent ${formatMs(hudStats.agentCommand)})`;
+  hudView.textContent = [
+    `fps ${fps.toFixed(1)} · dropped ${view?.droppedFrames ?? 0}`,
+    `frame ${formatBytes(view?.lastFrameBytes ?? 0)} · ${formatBytes(bytesPerSec)}/s`,
+    `rtt signaling ${formatMs(hudStats.signalingRtt)} · agent ${formatMs(hudStats.agentRtt)}`,
+    `control ${formatMs(hudStats.controlRtt)}${agentCommand}`,
+    `input→frame ~${formatMs(hudStats.inputToFrame)}`,
+  ].join("\n");
+};
+
+// Each tick pings signaling and the agent, drops probes that never came back
+// and redraws. The control RTT only updates once input has been sent.
+const hudTick = (): void => {
+  const now = performance.now();
+  for (const [id, ping] of pendingPings) {
+    if (now - ping.sentAt > PROBE_TIMEOUT_MS) pendingPings.delete(id);
+  }
+  for (const [id, sentAt] of pendingAcks) {
+    if (now - sentAt > PROBE_TIMEOUT_MS) pendingAcks.delete(id);
+  }
+  for (const target of ["signaling", "agent"] as const) {
+    const id = nextProbeId++;
+    pendingPings.set(id, { target, sentAt: now });
+    send({ t: "ping", id, target });
+  }
+  renderHud();
+};
+
+const setHudVisible = (visible: boolean): void => {
+  hudView.hidden = !visible;
+  hudToggleButton.textContent = visible ? "Hide stats" : "Show stats";
+  if (hudTimer !== null) {
+    window.clearInterval(hudTimer);
+    hudTimer = null;
+  }
+  pendingPings.clear();
+  pendingAcks.clear();
+  inputAwaitingFrame = null;
+  hudSample = null;
+  if (visible) {
+    hudTimer = window.setInterval(hudTick, HUD_INTERVAL_MS);
+    hudTick();
+  }
+};
+
+// resume=true is an automatic reconnect that presents the resume token so
+// signaling reattaches this tab to its previous peer (and lock).
+const connect = (resume = false): void => {
   const signalingUrl = signalingInput.value.trim();
   const token = tokenInput.value.trim();
 
@@ -185,31 +1582,75 @@ const connect = (): void => {
     return;
   }
 
+  if (reconnectTimer !== null) {
+    window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (!resume) {
+    resumeToken = null;
+    reconnectAttempt = 0;
+    stopTokenRefresh();
+    ws?.close(1000);
+  }
+
   const wsUrl = new URL(signalingUrl);
   wsUrl.protocol = wsUrl.protocol === "https:" ? "wss:" : "ws:";
   wsUrl.pathname = "/ws";
-  ws = new WebSocket(wsUrl.toString());
+  const socket = new WebSocket(wsUrl.toString());
+  socket.binaryType = "arraybuffer";
+  ws = socket;
 
-  ws.addEventListener("open", () => {
+  socket.addEventListener("open", () => {
     statusText.textContent = "Connected";
-    send({ t: "hello", token });
+    send({ t: "hello", token, resumeToken: resumeToken ?? undefined, tier: frameTierSelect.value });
   });
 
-  ws.addEventListener("close", () => {
-    statusText.textContent = "Disconnected";
+  socket.addEventListener("close", (event) => {
+    if (ws !== socket) return;
+    // 4000-4999 are signaling's own decisions (bad token, expired session,
+    // resumed in another tab, admin action); retrying won't change them.
+    const retry = event.code !== 1000 && (event.code < 4000 || event.code > 4999);
+    if (retry) {
+      const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_INITIAL_DELAY_MS * 2 ** reconnectAttempt);
+      reconnectAttempt += 1;
+      statusText.textContent = `Disconnected, reconnecting in ${Math.ceil(delay / 1000)}s (attempt ${reconnectAttempt})`;
+      reconnectTimer = window.setTimeout(() => connect(true), delay);
+    } else {
+      statusText.textContent = event.reason ? `Disconnected: ${event.reason}` : "Disconnected";
+      resumeToken = null;
+      stopTokenRefresh();
+    }
     ownPeerId = "";
     lockOwnerPeerId = null;
-    if (lastFrameUrl) {
-      URL.revokeObjectURL(lastFrameUrl);
-      lastFrameUrl = null;
+    lockQueue = [];
+    deviceClipboardText = null;
+    agentConnected = false;
+    deviceUnavailableReason = null;
+    setDeviceStatus();
+    setClipboardStatus();
+    stopMic();
+    // The last frame stays up (dimmed) while reconnecting.
+    if (!retry) {
+      for (const view of displayViews.values()) {
+        if (view.lastUrl) {
+          URL.revokeObjectURL(view.lastUrl);
+          view.lastUrl = null;
+        }
+      }
     }
     setLockStatus();
   });
 
-  ws.addEventListener("message", (raw) => {
-    if (raw.data instanceof Blob) {
-      pendingFrameBlob = raw.data;
-      queueFrameRender();
+  socket.addEventListener("message", (raw) => {
+    if (raw.data instanceof ArrayBuffer) {
+      const envelope = decodeEnvelope(raw.data);
+      if (!envelope) return;
+      const { header, payloadOffset } = envelope;
+      if (header.channel === BINARY_CHANNEL_FRAME) {
+        receiveFrame(header, new Uint8Array(raw.data, payloadOffset));
+      } else if (header.channel === BINARY_CHANNEL_AUDIO) {
+        playAudioPacket(header, new DataView(raw.data, payloadOffset));
+      }
       return;
     }
 
@@ -227,37 +1668,160 @@ const connect = (): void => {
     const helloAck = helloAckSchema.safeParse(message);
     if (helloAck.success) {
       ownPeerId = helloAck.data.peerId;
+      resumeToken = helloAck.data.resumeToken;
+      scopes = helloAck.data.scopes;
+      if (helloAck.data.tier && helloAck.data.tier !== frameTierSelect.value) {
+        frameTierSelect.value = helloAck.data.tier;
+        resetFrameCounters();
+      }
+      reconnectAttempt = 0;
       sessionInput.value = helloAck.data.sessionId;
-      statusText.textContent = `Connected to ${helloAck.data.emulatorId} as ${helloAck.data.role}`;
+      if (tokenRefreshTimer === null) scheduleTokenRefresh();
+      statusText.textContent = `${helloAck.data.resumed ? "Reconnected" : "Connected"} to ${helloAck.data.emulatorId} as ${helloAck.data.role}`;
       setLockStatus();
+      if (scopes.includes("clipboard:read")) send({ t: "clipboard", action: "get" });
       return;
     }
 
     const state = sessionStateSchema.safeParse(message);
     if (state.success) {
       lockOwnerPeerId = state.data.lockOwnerPeerId;
+      lockQueue = state.data.lockQueue;
+      agentConnected = state.data.peers.some((p) => p.role === "agent");
+      lockOwnerConnected = state.data.peers.find((p) => p.id === lockOwnerPeerId)?.connected ?? true;
       setLockStatus();
+      setDeviceStatus();
+      if (!hasControl()) stopMic();
+      return;
+    }
+
+    const deviceState = deviceStateSchema.safeParse(message);
+    if (deviceState.success) {
+      deviceUnavailableReason = deviceState.data.available ? null : (deviceState.data.reason ?? "no frames");
+      setDeviceStatus();
+      return;
+    }
+
+    const displays = displaysSchema.safeParse(message);
+    if (displays.success) {
+      const ids = new Set(displays.data.displays.map((d) => d.id));
+      for (const display of displays.data.displays) {
+        const view = ensureDisplayView(display.id);
+        if (display.width > 0 && display.height > 0) {
+          view.tab.title = `${display.width}x${display.height} @ ${display.dpi} dpi`;
+          applyDisplayFormat(view, { width: display.width, height: display.height, rotation: display.rotation });
+        }
+      }
+      for (const id of [...displayViews.keys()]) {
+        if (!ids.has(id)) removeDisplayView(id);
+      }
+      if (displays.data.quality) {
+        if (frameQuality && frameQuality.level !== displays.data.quality.level) resetFrameCounters();
+        frameQuality = displays.data.quality;
+        frameQualitySelect.value = frameQuality.mode;
+        setFrameStats();
+      }
+      return;
+    }
+
+    const annotation = annotationSchema.safeParse(message);
+    if (annotation.success) {
+      // Our own shapes are drawn as they are made.
+      const { peerId, shape, id, display, points } = annotation.data;
+      if (peerId === ownPeerId) return;
+      if (shape === "clear") clearAnnotations();
+      else if (id) applyAnnotation(peerId, id, display, shape, points);
       return;
     }
 
     const lockResult = lockResultSchema.safeParse(message);
     if (lockResult.success) {
-      if (!lockResult.data.granted) {
-        statusText.textContent = "Control request denied";
-      } else {
-        statusText.textContent = "Control granted";
+      const { granted, queued, reason } = lockResult.data;
+      statusText.textContent =
+        reason === "idle"
+          ? "Control released after inactivity"
+          : reason === "auto_grant"
+            ? "Control passed to the next waiting peer"
+            : reason === "denied"
+              ? "Control request denied by the current controller"
+              : granted
+                ? "Control granted"
+                : queued
+                  ? "Control requested, waiting for the current controller"
+                  : "Control request denied";
+      return;
+    }
+
+    const logcat = logcatSchema.safeParse(message);
+    if (logcat.success) {
+      receiveLogcat(logcat.data.entries);
+      return;
+    }
+
+    const locationState = locationStateSchema.safeParse(message);
+    if (locationState.success) {
+      showLocationState(locationState.data);
+      return;
+    }
+
+    const pong = pongSchema.safeParse(message);
+    if (pong.success) {
+      const ping = pendingPings.get(pong.data.id);
+      if (ping) {
+        pendingPings.delete(pong.data.id);
+        hudStats[ping.target === "agent" ? "agentRtt" : "signalingRtt"] = performance.now() - ping.sentAt;
+      }
+      return;
+    }
+
+    const controlAck = controlAckSchema.safeParse(message);
+    if (controlAck.success) {
+      const sentAt = pendingAcks.get(controlAck.data.ackId);
+      if (sentAt !== undefined) {
+        pendingAcks.delete(controlAck.data.ackId);
+        hudStats.controlRtt = performance.now() - sentAt;
+        hudStats.agentCommand = controlAck.data.agentMs;
+        inputAwaitingFrame ??= sentAt;
       }
       return;
     }
 
+    const controlResult = controlResultSchema.safeParse(message);
+    if (controlResult.success) {
+      if (controlResult.data.type === "telephony") {
+        const { action, ok, response } = controlResult.data;
+        telephonyStatus.textContent = ok ? `${action}: OK` : `${action} failed: ${response}`;
+      }
+      return;
+    }
+
+    const clipboard = clipboardSchema.safeParse(message);
+    if (clipboard.success) {
+      deviceClipboardText = clipboard.data.text;
+      setClipboardStatus();
+      return;
+    }
+
     const err = errorSchema.safeParse(message);
     if (err.success) {
-      statusText.textContent = `Error: ${err.data.message}`;
+      statusText.textContent =
+        err.data.code === "missing_scope" ? `Not permitted by your token (${err.data.scope})` : `Error: ${err.data.message}`;
     }
   });
 };
 
 connectButton.addEventListener("click", () => connect());
+hudToggleButton.addEventListener("click", () => setHudVisible(hudTimer === null));
+// The tier is kept in the URL so reloads ask for it in hello.
+frameTierSelect.addEventListener("change", () => {
+  send({ t: "frame_tier", tier: frameTierSelect.value });
+  resetFrameCounters();
+  const url = new URL(window.location.href);
+  url.searchParams.set("tier", frameTierSelect.value);
+  window.history.replaceState(null, "", url);
+});
+frameQualitySelect.addEventListener("change", () => send({ t: "frame_quality", mode: frameQualitySelect.value }));
+window.setInterval(sendFrameFeedback, FRAME_FEEDBACK_INTERVAL_MS);
 requestLockButton.addEventListener("click", () => send({ t: "lock", action: "request" }));
 releaseLockButton.addEventListener("click", () => send({ t: "lock", action: "release" }));
 
@@ -273,6 +1837,157 @@ document.querySelector<HTMLButtonElement>("#navRecent")?.addEventListener("click
 document.querySelector<HTMLButtonElement>("#navPower")?.addEventListener("click", () => {
   send({ t: "control", event: { type: "nav", action: "power" } });
 });
+document.querySelector<HTMLButtonElement>("#navRotate")?.addEventListener("click", () => {
+  send({ t: "control", event: { type: "nav", action: "rotate" } });
+});
+
+document.querySelector<HTMLButtonElement>("#clipboardPaste")?.addEventListener("click", async () => {
+  try {
+    const text = await navigator.clipboard.readText();
+    send({ t: "clipboard", action: "set", text });
+  } catch {
+    statusText.textContent = "Clipboard read blocked by browser";
+  }
+});
+document.querySelector<HTMLButtonElement>("#clipboardCopy")?.addEventListener("click", async () => {
+  if (deviceClipboardText === null) {
+    send({ t: "clipboard", action: "get" });
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText(deviceClipboardText);
+    statusText.textContent = "Copied device clipboard";
+  } catch {
+    statusText.textContent = "Clipboard write blocked by browser";
+  }
+});
+
+audioToggleButton.addEventListener("click", () => setAudioMuted(!audioMuted));
+audioVolumeInput.addEventListener("input", () => setAudioMuted(audioMuted));
+micToggleButton.addEventListener("click", () => {
+  if (micCapture) stopMic();
+  else void startMic();
+});
+
+document.querySelector<HTMLButtonElement>("#gpsSet")?.addEventListener("click", () => {
+  const latitude = Number(gpsLatInput.value);
+  const longitude = Number(gpsLngInput.value);
+  if (!gpsLatInput.value || !gpsLngInput.value || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    gpsStatus.textContent = "Latitude and longitude required";
+    return;
+  }
+  const altitude = Number(gpsAltInput.value) || 0;
+  send({ t: "control", event: { type: "location", action: "set", point: { latitude, longitude, altitude } } });
+});
+document.querySelector<HTMLButtonElement>("#gpsRefresh")?.addEventListener("click", () => {
+  send({ t: "control", event: { type: "location", action: "get" } });
+});
+gpsRouteFileInput.addEventListener("change", async () => {
+  const file = gpsRouteFileInput.files?.[0];
+  if (!file) return;
+  try {
+    routePoints = parseRoute(await file.text());
+    gpsStatus.textContent = `Loaded ${routePoints.length} route points from ${file.name}`;
+  } catch (error) {
+    routePoints = [];
+    gpsStatus.textContent = error instanceof Error ? error.message : "Unable to read route";
+  }
+});
+document.querySelector<HTMLButtonElement>("#gpsRoutePlay")?.addEventListener("click", () => {
+  if (routePoints.length < 2) {
+    gpsStatus.textContent = "Load a route with at least two points";
+    return;
+  }
+  const speedMps = Math.max(1, Number(gpsSpeedInput.value) || 0) / 3.6;
+  send({ t: "control", event: { type: "location", action: "route_start", points: routePoints, speedMps } });
+});
+document.querySelector<HTMLButtonElement>("#gpsRouteStop")?.addEventListener("click", () => {
+  send({ t: "control", event: { type: "location", action: "route_stop" } });
+});
+
+batteryLevelInput.addEventListener("input", () => {
+  batteryLevelText.textContent = `${batteryLevelInput.value}%`;
+});
+document.querySelector<HTMLButtonElement>("#batteryApply")?.addEventListener("click", () => {
+  send({
+    t: "control",
+    event: {
+      type: "device",
+      action: "battery",
+      chargeLevel: Number(batteryLevelInput.value),
+      charger: batteryChargerSelect.value,
+      health: batteryHealthSelect.value,
+    },
+  });
+});
+document.querySelector<HTMLButtonElement>("#sensorApply")?.addEventListener("click", () => {
+  const values = sensorValuesInput.value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+    sensorValuesInput.classList.add("invalid");
+    return;
+  }
+  sensorValuesInput.classList.remove("invalid");
+  const [kind, name] = sensorTargetSelect.value.split(":");
+  const event = kind === "sensor" ? { action: "sensor", sensor: name, values } : { action: "physical", target: name, values };
+  send({ t: "control", event: { type: "device", ...event } });
+});
+document.querySelector<HTMLButtonElement>("#fingerprintTouch")?.addEventListener("click", () => {
+  send({ t: "control", event: { type: "device", action: "fingerprint", touchId: Number(fingerprintIdInput.value) || 0 } });
+});
+
+const sendTelephony = (event: Record<string, string>): void => {
+  telephonyStatus.textContent = "Sending…";
+  send({ t: "control", event: { type: "telephony", ...event } });
+};
+
+document.querySelector<HTMLButtonElement>("#smsSend")?.addEventListener("click", () => {
+  if (!smsFromInput.value.trim() || !smsTextInput.value) {
+    telephonyStatus.textContent = "Sender and message required";
+    return;
+  }
+  sendTelephony({ action: "sms", srcAddress: smsFromInput.value.trim(), text: smsTextInput.value });
+});
+document.querySelectorAll<HTMLButtonElement>("button[data-call]").forEach((button) => {
+  button.addEventListener("click", () => {
+    if (!callNumberInput.value.trim()) {
+      telephonyStatus.textContent = "Caller number required";
+      return;
+    }
+    sendTelephony({ action: "call", operation: button.dataset.call!, number: callNumberInput.value.trim() });
+  });
+});
+document.querySelector<HTMLButtonElement>("#deviceNumberSet")?.addEventListener("click", () => {
+  if (!deviceNumberInput.value.trim()) {
+    telephonyStatus.textContent = "Device number required";
+    return;
+  }
+  sendTelephony({ action: "set_number", number: deviceNumberInput.value.trim() });
+});
+
+logcatLevelSelect.addEventListener("change", () => renderLogcat());
+logcatTagInput.addEventListener("input", () => renderLogcat());
+logcatFilterInput.addEventListener("input", () => renderLogcat());
+logcatPauseButton.addEventListener("click", () => {
+  logcatPaused = !logcatPaused;
+  logcatPauseButton.textContent = logcatPaused ? "Resume" : "Pause";
+  if (!logcatPaused) renderLogcat();
+});
+document.querySelector<HTMLButtonElement>("#logcatClear")?.addEventListener("click", () => {
+  logcatEntries = [];
+  renderLogcat();
+});
+document.querySelector<HTMLButtonElement>("#logcatExport")?.addEventListener("click", () => exportLogcat());
+
+displayLayoutSelect.addEventListener("change", () => selectDisplay(activeDisplayId));
+window.addEventListener("resize", queueAnnotationRender);
+document.querySelector<HTMLButtonElement>("#annotationClear")?.addEventListener("click", () => {
+  clearAnnotations();
+  send({ t: "annotation", shape: "clear" });
+});
+ensureDisplayView(0);
 
 if (tokenInput.value) {
   connect();